@@ -1,85 +1,652 @@
+/**
+ * Priority levels a support request can carry, most urgent first.
+ */
+type Priority = "urgent" | "high" | "normal" | "low";
+
+const PRIORITY_RANK: Record<Priority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
 /**
  * Request class representing a customer support request.
  */
 class SupportRequest {
   private complexity: number;
+  private priority: Priority;
+  private category: string;
 
-  constructor(complexity: number) {
+  constructor(complexity: number, priority: Priority = "normal", category: string = "general") {
     this.complexity = complexity;
+    this.priority = priority;
+    this.category = category;
   }
 
   getComplexity(): number {
     return this.complexity;
   }
+
+  getPriority(): Priority {
+    return this.priority;
+  }
+
+  getCategory(): string {
+    return this.category;
+  }
+}
+
+/**
+ * Clock interface used for timestamps and timers, so time can be simulated.
+ * `schedule` returns a function that cancels the pending callback.
+ */
+interface Clock {
+  now(): number;
+  schedule(callback: () => void, delayMs: number): () => void;
+}
+
+/**
+ * Clock backed by the system time and `setTimeout`.
+ */
+class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const timer = setTimeout(callback, delayMs);
+    return () => clearTimeout(timer);
+  }
+}
+
+/**
+ * Virtual clock that only moves when `advance` is called, running due callbacks in order.
+ */
+class VirtualClock implements Clock {
+  private time: number;
+  private timers: { at: number; seq: number; callback: () => void }[] = [];
+  private seq: number = 0;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const timer = { at: this.time + delayMs, seq: this.seq++, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((t) => t !== timer);
+    };
+  }
+
+  advance(ms: number): void {
+    const target = this.time + ms;
+    for (;;) {
+      const due = this.timers
+        .filter((t) => t.at <= target)
+        .sort((a, b) => a.at - b.at || a.seq - b.seq)[0];
+      if (!due) {
+        break;
+      }
+      this.timers = this.timers.filter((t) => t !== due);
+      this.time = due.at;
+      due.callback();
+    }
+    this.time = target;
+  }
+}
+
+/**
+ * Decision a handler made about a request while it passed through the chain.
+ */
+type RoutingDecision = "handled" | "passed" | "unhandled";
+
+/**
+ * Entry in the trace of handlers a request visited.
+ */
+interface TraceEntry {
+  handler: string;
+  at: number;
+  decision: RoutingDecision;
+}
+
+/**
+ * Outcome of passing a request through a chain of handlers.
+ * A handled outcome names the handler that resolved the request; both carry the routing trace.
+ */
+type HandlerOutcome<TResult> =
+  | { status: "handled"; handledBy: string; resolution: TResult; trace: TraceEntry[] }
+  | { status: "unhandled"; trace: TraceEntry[] };
+
+/**
+ * State shared by all handlers while a single request is dispatched through the chain.
+ */
+interface DispatchContext {
+  clock: Clock;
+  trace: TraceEntry[];
+  visited: Set<object>;
+}
+
+/**
+ * Creates the context for dispatching a new request.
+ *
+ * @param clock The clock used to timestamp trace entries.
+ */
+function createDispatchContext(clock: Clock = new SystemClock()): DispatchContext {
+  return { clock, trace: [], visited: new Set() };
+}
+
+/**
+ * Error thrown when handlers are linked into a loop.
+ */
+class ChainCycleError extends Error {
+  readonly path: string[];
+
+  constructor(path: string[]) {
+    super(`Handler chain contains a cycle: ${path.join(" -> ")}`);
+    this.name = "ChainCycleError";
+    this.path = path;
+  }
 }
 
 /**
  * Handler interface defining the method for handling requests.
  */
-interface Handler {
-  setNextHandler(handler: Handler): void;
-  handleRequest(request: SupportRequest): void;
+interface Handler<TRequest, TResult> {
+  readonly name: string;
+  setNextHandler(handler: Handler<TRequest, TResult>): Handler<TRequest, TResult>;
+  getNextHandler(): Handler<TRequest, TResult> | null;
+  handleRequest(request: TRequest, context?: DispatchContext): Promise<HandlerOutcome<TResult>>;
+  describe(): string;
 }
 
 /**
- * Concrete handler class for Tier 1 support.
+ * Base handler class implementing the forwarding logic.
+ * Subclasses only decide whether they can resolve a request; returning
+ * `undefined` from `process` passes the request to the next handler.
  */
-class Tier1Support implements Handler {
-  private nextHandler: Handler | null = null;
-  private complexityThreshold: number = 5;
+abstract class BaseHandler<TRequest, TResult> implements Handler<TRequest, TResult> {
+  private nextHandler: Handler<TRequest, TResult> | null = null;
+
+  constructor(readonly name: string) {}
+
+  /**
+   * Links the next handler, refusing links that would make the chain loop back to this handler.
+   *
+   * @throws ChainCycleError if this handler is reachable from `handler`.
+   */
+  setNextHandler(handler: Handler<TRequest, TResult>): Handler<TRequest, TResult> {
+    const path: string[] = [this.name];
+    const seen = new Set<Handler<TRequest, TResult>>();
+    for (let current: Handler<TRequest, TResult> | null = handler; current; current = current.getNextHandler()) {
+      path.push(current.name);
+      if (current === this || seen.has(current)) {
+        throw new ChainCycleError(path);
+      }
+      seen.add(current);
+    }
 
-  setNextHandler(handler: Handler): void {
     this.nextHandler = handler;
+    return handler;
   }
 
-  handleRequest(request: SupportRequest): void {
-    if (request.getComplexity() <= this.complexityThreshold) {
-      console.log("Tier 1 support handles the request.");
-    } else if (this.nextHandler) {
-      console.log("Passing request to Tier 2 support.");
-      this.nextHandler.handleRequest(request);
-    } else {
-      console.log("No suitable handler. Request remains unhandled.");
+  getNextHandler(): Handler<TRequest, TResult> | null {
+    return this.nextHandler;
+  }
+
+  /**
+   * Handles the request or passes it on, recording each decision in the trace.
+   *
+   * @throws ChainCycleError if the request reaches a handler it already visited.
+   */
+  async handleRequest(
+    request: TRequest,
+    context: DispatchContext = createDispatchContext()
+  ): Promise<HandlerOutcome<TResult>> {
+    if (context.visited.has(this)) {
+      throw new ChainCycleError([...context.trace.map((entry) => entry.handler), this.name]);
+    }
+    context.visited.add(this);
+
+    const resolution = await this.process(request);
+    const record = (decision: RoutingDecision) =>
+      context.trace.push({ handler: this.name, at: context.clock.now(), decision });
+
+    if (resolution !== undefined) {
+      record("handled");
+      return { status: "handled", handledBy: this.name, resolution, trace: context.trace };
     }
+    if (this.nextHandler) {
+      record("passed");
+      return this.nextHandler.handleRequest(request, context);
+    }
+    record("unhandled");
+    return { status: "unhandled", trace: context.trace };
+  }
+
+  describe(): string {
+    return this.name;
   }
+
+  protected abstract process(request: TRequest): TResult | undefined | Promise<TResult | undefined>;
 }
 
 /**
- * Concrete handler class for Tier 2 support.
+ * Handler wrapping a plain (sync or async) function.
  */
-class Tier2Support implements Handler {
-  private nextHandler: Handler | null = null;
-  private complexityThreshold: number = 10;
+class FunctionHandler<TRequest, TResult> extends BaseHandler<TRequest, TResult> {
+  private fn: (request: TRequest) => TResult | undefined | Promise<TResult | undefined>;
 
-  setNextHandler(handler: Handler): void {
-    this.nextHandler = handler;
+  constructor(name: string, fn: (request: TRequest) => TResult | undefined | Promise<TResult | undefined>) {
+    super(name);
+    this.fn = fn;
+  }
+
+  protected process(request: TRequest): TResult | undefined | Promise<TResult | undefined> {
+    return this.fn(request);
+  }
+}
+
+/**
+ * Links the given handlers in order and returns the head of the chain.
+ *
+ * @param handlers The handlers to link, first to last.
+ */
+function chain<TRequest, TResult>(...handlers: Handler<TRequest, TResult>[]): Handler<TRequest, TResult> {
+  if (handlers.length === 0) {
+    throw new Error("chain() requires at least one handler");
   }
+  handlers.reduce((previous, next) => previous.setNextHandler(next));
+  return handlers[0];
+}
+
+/**
+ * Renders the topology of a chain, one handler per line, starting from `head`.
+ *
+ * @param head The first handler of the chain.
+ * @throws ChainCycleError if the chain loops.
+ */
+function dumpChain<TRequest, TResult>(head: Handler<TRequest, TResult>): string {
+  const lines: string[] = [];
+  const seen = new Set<Handler<TRequest, TResult>>();
+  for (let current: Handler<TRequest, TResult> | null = head; current; current = current.getNextHandler()) {
+    if (seen.has(current)) {
+      throw new ChainCycleError([...[...seen].map((handler) => handler.name), current.name]);
+    }
+    seen.add(current);
+    lines.push(`${lines.length + 1}. ${current.describe()}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Lifecycle state of a support ticket within its current tier.
+ */
+type TicketStatus = "queued" | "open" | "resolved";
+
+/**
+ * Ticket tracking a support request while it is worked on by a tier.
+ */
+interface Ticket {
+  id: number;
+  request: SupportRequest;
+  tier: TierSupport;
+  status: TicketStatus;
+  enteredTierAt: number;
+  escalatedFrom: string[];
+}
+
+/**
+ * Options configuring a support tier.
+ */
+interface TierOptions {
+  complexityThreshold?: number;
+  capacity?: number;
+  slaMs?: number;
+  categories?: string[];
+}
+
+let nextTicketId = 1;
 
-  handleRequest(request: SupportRequest): void {
-    if (request.getComplexity() <= this.complexityThreshold) {
-      console.log("Tier 2 support handles the request.");
-    } else if (this.nextHandler) {
-      console.log("Passing request to Tier 3 support.");
-      this.nextHandler.handleRequest(request);
+/**
+ * Concrete handler class for a support tier.
+ * A tier accepts requests up to its complexity threshold (and, optionally, only for some
+ * categories), works on at most `capacity` tickets at once, queues the rest by priority,
+ * and escalates tickets left unresolved past its SLA to the next tier in the chain.
+ */
+class TierSupport extends BaseHandler<SupportRequest, Ticket> {
+  private clock: Clock;
+  private complexityThreshold: number;
+  private capacity: number;
+  private slaMs: number;
+  private categories: string[] | null;
+  private openTickets: Ticket[] = [];
+  private queue: Ticket[] = [];
+  private slaTimers: Map<number, () => void> = new Map();
+
+  constructor(name: string, clock: Clock, options: TierOptions = {}) {
+    super(name);
+    this.clock = clock;
+    this.complexityThreshold = options.complexityThreshold ?? Infinity;
+    this.capacity = options.capacity ?? Infinity;
+    this.slaMs = options.slaMs ?? Infinity;
+    this.categories = options.categories ?? null;
+  }
+
+  describe(): string {
+    const limits: string[] = [];
+    if (this.complexityThreshold !== Infinity) {
+      limits.push(`complexity <= ${this.complexityThreshold}`);
+    }
+    if (this.categories) {
+      limits.push(`categories: ${this.categories.join(", ")}`);
+    }
+    if (this.capacity !== Infinity) {
+      limits.push(`capacity ${this.capacity}`);
+    }
+    if (this.slaMs !== Infinity) {
+      limits.push(`SLA ${this.slaMs / 60000} min`);
+    }
+    return limits.length > 0 ? `${this.name} (${limits.join("; ")})` : this.name;
+  }
+
+  getOpenTickets(): Ticket[] {
+    return [...this.openTickets];
+  }
+
+  getQueuedTickets(): Ticket[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Marks an open ticket as resolved and starts work on the next queued ticket.
+   */
+  resolve(ticket: Ticket): void {
+    if (ticket.tier !== this || ticket.status !== "open") {
+      throw new Error(`Ticket #${ticket.id} is not open at ${this.name}`);
+    }
+    this.release(ticket);
+    ticket.status = "resolved";
+  }
+
+  protected process(request: SupportRequest): Ticket | undefined {
+    if (request.getComplexity() > this.complexityThreshold) {
+      return undefined;
+    }
+    if (this.categories && !this.categories.includes(request.getCategory())) {
+      return undefined;
+    }
+
+    const ticket: Ticket = {
+      id: nextTicketId++,
+      request,
+      tier: this,
+      status: "queued",
+      enteredTierAt: this.clock.now(),
+      escalatedFrom: [],
+    };
+    this.admit(ticket);
+    return ticket;
+  }
+
+  /**
+   * Takes over a ticket regardless of threshold and category, as done on escalation.
+   */
+  private admit(ticket: Ticket): void {
+    ticket.tier = this;
+    ticket.enteredTierAt = this.clock.now();
+
+    if (this.openTickets.length < this.capacity) {
+      ticket.status = "open";
+      this.openTickets.push(ticket);
     } else {
-      console.log("No suitable handler. Request remains unhandled.");
+      ticket.status = "queued";
+      this.queue.push(ticket);
+      this.queue.sort(
+        (a, b) =>
+          PRIORITY_RANK[a.request.getPriority()] - PRIORITY_RANK[b.request.getPriority()] ||
+          a.enteredTierAt - b.enteredTierAt
+      );
+    }
+
+    if (this.slaMs !== Infinity) {
+      this.slaTimers.set(ticket.id, this.clock.schedule(() => this.escalate(ticket), this.slaMs));
+    }
+  }
+
+  private release(ticket: Ticket): void {
+    this.slaTimers.get(ticket.id)?.();
+    this.slaTimers.delete(ticket.id);
+    this.queue = this.queue.filter((t) => t !== ticket);
+
+    if (this.openTickets.includes(ticket)) {
+      this.openTickets = this.openTickets.filter((t) => t !== ticket);
+      const next = this.queue.shift();
+      if (next) {
+        next.status = "open";
+        this.openTickets.push(next);
+      }
+    }
+  }
+
+  private escalate(ticket: Ticket): void {
+    this.slaTimers.delete(ticket.id);
+    const nextTier = this.getNextHandler();
+    if (!(nextTier instanceof TierSupport)) {
+      console.log(`Ticket #${ticket.id} breached the ${this.name} SLA with no tier to escalate to.`);
+      return;
     }
+
+    this.release(ticket);
+    ticket.escalatedFrom.push(this.name);
+    nextTier.admit(ticket);
+    console.log(`Ticket #${ticket.id} escalated from ${this.name} to ${nextTier.name}.`);
   }
 }
 
 /**
- * Concrete handler class for Tier 3 support.
+ * JSON description of a single handler in a chain configuration.
+ * Handlers are linked through `next`; the handler without `next` is followed by the fallback.
  */
-class Tier3Support implements Handler {
-  private nextHandler: Handler | null = null;
+interface HandlerConfig {
+  id: string;
+  type: string;
+  name?: string;
+  complexityThreshold?: number;
+  capacity?: number;
+  slaMinutes?: number;
+  categories?: string[];
+  next?: string;
+}
 
-  setNextHandler(handler: Handler): void {
-    this.nextHandler = handler;
+/**
+ * JSON document describing a whole chain of handlers.
+ */
+interface ChainConfig {
+  entry: string;
+  fallback?: string;
+  handlers: HandlerConfig[];
+}
+
+/**
+ * Chain built from a configuration, with its handlers addressable by id.
+ */
+interface LoadedChain {
+  entry: Handler<SupportRequest, Ticket>;
+  handlers: Map<string, Handler<SupportRequest, Ticket>>;
+}
+
+/**
+ * Error thrown when a chain configuration cannot be loaded, listing every problem found.
+ */
+class ChainConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid chain configuration:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ChainConfigError";
+    this.problems = problems;
+  }
+}
+
+type HandlerFactory = (config: HandlerConfig, clock: Clock) => Handler<SupportRequest, Ticket>;
+
+/**
+ * Factories for the handler types a configuration may use, keyed by `type`.
+ */
+const handlerFactories: Map<string, HandlerFactory> = new Map([
+  [
+    "tier",
+    (config: HandlerConfig, clock: Clock) =>
+      new TierSupport(config.name ?? config.id, clock, {
+        complexityThreshold: config.complexityThreshold,
+        capacity: config.capacity,
+        slaMs: config.slaMinutes === undefined ? undefined : config.slaMinutes * 60 * 1000,
+        categories: config.categories,
+      }),
+  ],
+]);
+
+/**
+ * Checks the fields of a single handler entry, returning a list of problems.
+ */
+function validateHandlerConfig(config: HandlerConfig, index: number): string[] {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    return [`handler at index ${index} must be an object`];
+  }
+  const where = typeof config.id === "string" ? `handler "${config.id}"` : `handler at index ${index}`;
+  const problems: string[] = [];
+  const isNonNegative = (value: unknown) => typeof value === "number" && value >= 0;
+
+  if (typeof config.id !== "string" || config.id === "") {
+    problems.push(`${where} must have a non-empty string "id"`);
+  }
+  if (!handlerFactories.has(config.type)) {
+    problems.push(`${where} has unknown type "${config.type}" (known types: ${[...handlerFactories.keys()].join(", ")})`);
+  }
+  if (config.name !== undefined && typeof config.name !== "string") {
+    problems.push(`${where} has a non-string "name"`);
+  }
+  if (config.complexityThreshold !== undefined && !isNonNegative(config.complexityThreshold)) {
+    problems.push(`${where} must have a non-negative "complexityThreshold"`);
+  }
+  if (config.capacity !== undefined && !(Number.isInteger(config.capacity) && config.capacity > 0)) {
+    problems.push(`${where} must have a positive integer "capacity"`);
+  }
+  if (config.slaMinutes !== undefined && !(typeof config.slaMinutes === "number" && config.slaMinutes > 0)) {
+    problems.push(`${where} must have a positive "slaMinutes"`);
+  }
+  if (
+    config.categories !== undefined &&
+    !(Array.isArray(config.categories) && config.categories.every((c) => typeof c === "string"))
+  ) {
+    problems.push(`${where} must have "categories" as an array of strings`);
+  }
+  return problems;
+}
+
+/**
+ * Checks the links between handlers: references, cycles and reachability from the entry.
+ */
+function validateChainLinks(config: ChainConfig, byId: Map<string, HandlerConfig>): string[] {
+  const problems: string[] = [];
+
+  for (const [ref, label] of [
+    [config.entry, "entry"],
+    [config.fallback, "fallback"],
+  ] as const) {
+    if (ref !== undefined && !byId.has(ref)) {
+      problems.push(`${label} refers to unknown handler "${ref}"`);
+    }
+  }
+  for (const handler of byId.values()) {
+    if (handler.next !== undefined && !byId.has(handler.next)) {
+      problems.push(`handler "${handler.id}" has "next" referring to unknown handler "${handler.next}"`);
+    }
+  }
+  if (config.fallback !== undefined && byId.get(config.fallback)?.next !== undefined) {
+    problems.push(`fallback handler "${config.fallback}" must not have a "next" handler`);
+  }
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  const reachable = new Set<string>();
+  let current: string | undefined = config.entry;
+  while (current !== undefined) {
+    if (reachable.has(current)) {
+      problems.push(`cycle detected: ${[...reachable, current].join(" -> ")}`);
+      return problems;
+    }
+    reachable.add(current);
+    current = byId.get(current)!.next;
+  }
+  if (config.fallback !== undefined) {
+    reachable.add(config.fallback);
+  }
+  for (const id of byId.keys()) {
+    if (!reachable.has(id)) {
+      problems.push(`handler "${id}" is unreachable from entry "${config.entry}"`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Builds a chain of handlers from a JSON document, validating it first.
+ *
+ * @param json The chain configuration as JSON text.
+ * @param clock The clock handed to time-aware handlers.
+ * @throws ChainConfigError if the document is malformed or describes an invalid chain.
+ */
+function loadChainConfig(json: string, clock: Clock): LoadedChain {
+  let config: ChainConfig;
+  try {
+    config = JSON.parse(json);
+  } catch (error) {
+    throw new ChainConfigError([`not valid JSON: ${(error as Error).message}`]);
+  }
+  if (typeof config !== "object" || config === null || !Array.isArray(config.handlers)) {
+    throw new ChainConfigError(['document must be an object with a "handlers" array']);
+  }
+  if (typeof config.entry !== "string") {
+    throw new ChainConfigError(['document must name an "entry" handler']);
   }
 
-  handleRequest(request: SupportRequest): void {
-    console.log("Tier 3 support handles the request.");
+  const problems: string[] = [];
+  const byId = new Map<string, HandlerConfig>();
+  config.handlers.forEach((handler, index) => {
+    const fieldProblems = validateHandlerConfig(handler, index);
+    problems.push(...fieldProblems);
+    if (fieldProblems.length > 0 && typeof handler?.id !== "string") {
+      return;
+    }
+    if (byId.has(handler.id)) {
+      problems.push(`duplicate handler id "${handler.id}"`);
+    }
+    byId.set(handler.id, handler);
+  });
+  problems.push(...validateChainLinks(config, byId));
+  if (problems.length > 0) {
+    throw new ChainConfigError(problems);
   }
+
+  const handlers = new Map<string, Handler<SupportRequest, Ticket>>();
+  for (const handler of config.handlers) {
+    handlers.set(handler.id, handlerFactories.get(handler.type)!(handler, clock));
+  }
+
+  const order: Handler<SupportRequest, Ticket>[] = [];
+  for (let id: string | undefined = config.entry; id !== undefined; id = byId.get(id)!.next) {
+    order.push(handlers.get(id)!);
+  }
+  // The fallback may already end the chain through "next"
+  const fallback = config.fallback === undefined ? undefined : handlers.get(config.fallback)!;
+  if (fallback !== undefined && !order.includes(fallback)) {
+    order.push(fallback);
+  }
+
+  return { entry: chain(...order), handlers };
 }
 
 /**
@@ -87,25 +654,100 @@ class Tier3Support implements Handler {
  *
  * @param request The support request to handle.
  * @param handler The chain of handlers.
+ * @param clock The clock used to timestamp the routing trace.
  */
-function handleSupportRequest(request: SupportRequest, handler: Handler): void {
-  handler.handleRequest(request);
+function handleSupportRequest(
+  request: SupportRequest,
+  handler: Handler<SupportRequest, Ticket>,
+  clock: Clock
+): Promise<HandlerOutcome<Ticket>> {
+  return handler.handleRequest(request, createDispatchContext(clock));
 }
 
 /**
  * Usage example.
  */
-const tier1Support = new Tier1Support();
-const tier2Support = new Tier2Support();
-const tier3Support = new Tier3Support();
+const MINUTE = 60 * 1000;
+const clock = new VirtualClock();
 
-tier1Support.setNextHandler(tier2Support);
-tier2Support.setNextHandler(tier3Support);
+const supportConfig = `{
+  "entry": "billing",
+  "fallback": "tier3",
+  "handlers": [
+    { "id": "billing", "type": "tier", "name": "Billing", "categories": ["billing"], "capacity": 1, "next": "tier1" },
+    { "id": "tier1", "type": "tier", "name": "Tier 1", "complexityThreshold": 5, "capacity": 1, "slaMinutes": 30, "next": "tier2" },
+    { "id": "tier2", "type": "tier", "name": "Tier 2", "complexityThreshold": 10, "capacity": 2, "slaMinutes": 120 },
+    { "id": "tier3", "type": "tier", "name": "Tier 3" }
+  ]
+}`;
 
-const supportRequest1 = new SupportRequest(3);
-const supportRequest2 = new SupportRequest(8);
-const supportRequest3 = new SupportRequest(12);
+const { entry: supportChain, handlers: supportHandlers } = loadChainConfig(supportConfig, clock);
+const tier1Support = supportHandlers.get("tier1") as TierSupport;
+const tier2Support = supportHandlers.get("tier2") as TierSupport;
+
+function describe(outcome: HandlerOutcome<Ticket>): string {
+  if (outcome.status === "unhandled") {
+    return "unhandled";
+  }
+  const ticket = outcome.resolution;
+  return `#${ticket.id} ${ticket.status} at ${ticket.tier.name}`;
+}
+
+async function runSupportExample(): Promise<void> {
+  const outcome1 = await handleSupportRequest(new SupportRequest(3), supportChain, clock);
+  const outcome2 = await handleSupportRequest(new SupportRequest(2, "low"), supportChain, clock);
+  const outcome3 = await handleSupportRequest(new SupportRequest(4, "urgent"), supportChain, clock);
+  const outcome4 = await handleSupportRequest(new SupportRequest(8, "normal", "billing"), supportChain, clock);
+  const outcome5 = await handleSupportRequest(new SupportRequest(12), supportChain, clock);
+
+  console.log(describe(outcome1)); // Output: #1 open at Tier 1
+  console.log(describe(outcome2)); // Output: #2 queued at Tier 1
+  console.log(describe(outcome3)); // Output: #3 queued at Tier 1
+  console.log(describe(outcome4)); // Output: #4 open at Billing
+  console.log(describe(outcome5)); // Output: #5 open at Tier 3
+  console.log(outcome5.trace.map((entry) => `${entry.handler}: ${entry.decision}`)); // Output: [ 'Billing: passed', 'Tier 1: passed', 'Tier 2: passed', 'Tier 3: handled' ]
+
+  console.log(dumpChain(supportChain));
+  // Output:
+  // 1. Billing (categories: billing; capacity 1)
+  // 2. Tier 1 (complexity <= 5; capacity 1; SLA 30 min)
+  // 3. Tier 2 (complexity <= 10; capacity 2; SLA 120 min)
+  // 4. Tier 3
+
+  try {
+    supportHandlers.get("tier3")!.setNextHandler(tier1Support);
+  } catch (error) {
+    console.log((error as Error).message); // Output: Handler chain contains a cycle: Tier 3 -> Tier 1 -> Tier 2 -> Tier 3
+  }
+
+  // The urgent ticket jumps the queue once Tier 1 frees up.
+  clock.advance(10 * MINUTE);
+  tier1Support.resolve(tier1Support.getOpenTickets()[0]);
+  console.log(tier1Support.getOpenTickets().map((t) => t.id)); // Output: [ 3 ]
+
+  // Tickets still waiting 30 minutes after entering Tier 1 are escalated to Tier 2.
+  clock.advance(20 * MINUTE); // Output: Ticket #2 escalated from Tier 1 to Tier 2. Ticket #3 escalated from Tier 1 to Tier 2.
+  console.log(tier2Support.getOpenTickets().map((t) => t.id)); // Output: [ 2, 3 ]
+
+  try {
+    loadChainConfig(
+      `{
+        "entry": "tier1",
+        "handlers": [
+          { "id": "tier1", "type": "tier", "next": "tier2" },
+          { "id": "tier2", "type": "tier", "next": "tier1" },
+          { "id": "bot", "type": "chatbot" }
+        ]
+      }`,
+      clock
+    );
+  } catch (error) {
+    console.log((error as Error).message);
+    // Output:
+    // Invalid chain configuration:
+    //   - handler "bot" has unknown type "chatbot" (known types: tier)
+    //   - cycle detected: tier1 -> tier2 -> tier1
+  }
+}
 
-handleSupportRequest(supportRequest1, tier1Support); // Output: Tier 1 support handles the request.
-handleSupportRequest(supportRequest2, tier1Support); // Output: Passing request to Tier 2 support. Tier 2 support handles the request.
-handleSupportRequest(supportRequest3, tier1Support); // Output: Passing request to Tier 2 support. Passing request to Tier 3 support. Tier 3 support handles the request.
+runSupportExample();
@@ -1,8 +1,37 @@
+import { appendFileSync, existsSync, readFileSync, truncateSync } from "fs";
+
+/**
+ * Serializable form of a command: its type, the id of the device it targets and its arguments.
+ */
+interface CommandData {
+  type: string;
+  target: string;
+  args: unknown[];
+}
+
+/**
+ * State of a device as a plain JSON object.
+ */
+type DeviceState = Record<string, unknown>;
+
+/**
+ * Receiver interface for devices that can be identified, snapshotted and restored.
+ */
+interface Device {
+  readonly id: string;
+  getState(): DeviceState;
+  restoreState(state: DeviceState): void;
+}
+
 /**
- * Command interface declaring the method for executing a command.
+ * Command interface declaring the methods for executing and undoing a command.
+ * A command may be executed several times; each `undo` reverts the most recent execution.
  */
 interface Command {
   execute(): void;
+  undo(): void;
+  toData(): CommandData;
+  getDevices(): Device[];
 }
 
 /**
@@ -10,14 +39,30 @@ interface Command {
  */
 class LightOnCommand implements Command {
   private light: Light;
+  private previousStates: boolean[] = [];
 
   constructor(light: Light) {
     this.light = light;
   }
 
   execute(): void {
+    this.previousStates.push(this.light.isOn());
     this.light.turnOn();
   }
+
+  undo(): void {
+    if (this.previousStates.pop() === false) {
+      this.light.turnOff();
+    }
+  }
+
+  toData(): CommandData {
+    return { type: "light.on", target: this.light.id, args: [] };
+  }
+
+  getDevices(): Device[] {
+    return [this.light];
+  }
 }
 
 /**
@@ -25,14 +70,30 @@ class LightOnCommand implements Command {
  */
 class LightOffCommand implements Command {
   private light: Light;
+  private previousStates: boolean[] = [];
 
   constructor(light: Light) {
     this.light = light;
   }
 
   execute(): void {
+    this.previousStates.push(this.light.isOn());
     this.light.turnOff();
   }
+
+  undo(): void {
+    if (this.previousStates.pop() === true) {
+      this.light.turnOn();
+    }
+  }
+
+  toData(): CommandData {
+    return { type: "light.off", target: this.light.id, args: [] };
+  }
+
+  getDevices(): Device[] {
+    return [this.light];
+  }
 }
 
 /**
@@ -40,14 +101,31 @@ class LightOffCommand implements Command {
  */
 class ThermostatUpCommand implements Command {
   private thermostat: Thermostat;
+  private previousTemperatures: number[] = [];
 
   constructor(thermostat: Thermostat) {
     this.thermostat = thermostat;
   }
 
   execute(): void {
+    this.previousTemperatures.push(this.thermostat.getTemperature());
     this.thermostat.increaseTemperature();
   }
+
+  undo(): void {
+    const previousTemperature = this.previousTemperatures.pop();
+    if (previousTemperature !== undefined) {
+      this.thermostat.setTemperature(previousTemperature);
+    }
+  }
+
+  toData(): CommandData {
+    return { type: "thermostat.up", target: this.thermostat.id, args: [] };
+  }
+
+  getDevices(): Device[] {
+    return [this.thermostat];
+  }
 }
 
 /**
@@ -55,68 +133,964 @@ class ThermostatUpCommand implements Command {
  */
 class ThermostatDownCommand implements Command {
   private thermostat: Thermostat;
+  private previousTemperatures: number[] = [];
 
   constructor(thermostat: Thermostat) {
     this.thermostat = thermostat;
   }
 
   execute(): void {
+    this.previousTemperatures.push(this.thermostat.getTemperature());
     this.thermostat.decreaseTemperature();
   }
+
+  undo(): void {
+    const previousTemperature = this.previousTemperatures.pop();
+    if (previousTemperature !== undefined) {
+      this.thermostat.setTemperature(previousTemperature);
+    }
+  }
+
+  toData(): CommandData {
+    return { type: "thermostat.down", target: this.thermostat.id, args: [] };
+  }
+
+  getDevices(): Device[] {
+    return [this.thermostat];
+  }
+}
+
+/**
+ * Command restoring a device to a previously captured state.
+ * Used to journal the effect of an undo and to replay it.
+ */
+class RestoreStateCommand implements Command {
+  private device: Device;
+  private state: DeviceState;
+  private previousStates: DeviceState[] = [];
+
+  constructor(device: Device, state: DeviceState) {
+    this.device = device;
+    this.state = state;
+  }
+
+  execute(): void {
+    this.previousStates.push(this.device.getState());
+    this.device.restoreState(this.state);
+  }
+
+  undo(): void {
+    const previousState = this.previousStates.pop();
+    if (previousState !== undefined) {
+      this.device.restoreState(previousState);
+    }
+  }
+
+  toData(): CommandData {
+    return { type: "device.restore", target: this.device.id, args: [this.state] };
+  }
+
+  getDevices(): Device[] {
+    return [this.device];
+  }
 }
 
 /**
  * Receiver class for controlling lights.
  */
-class Light {
+class Light implements Device {
+  readonly id: string;
+  private on: boolean = false;
+
+  constructor(id: string = "light") {
+    this.id = id;
+  }
+
+  isOn(): boolean {
+    return this.on;
+  }
+
   turnOn(): void {
+    this.on = true;
     console.log("Light is ON");
   }
 
   turnOff(): void {
+    this.on = false;
     console.log("Light is OFF");
   }
+
+  getState(): DeviceState {
+    return { on: this.on };
+  }
+
+  restoreState(state: DeviceState): void {
+    if (state.on) {
+      this.turnOn();
+    } else {
+      this.turnOff();
+    }
+  }
 }
 
 /**
  * Receiver class for controlling the thermostat.
+ * The target temperature is kept within `[minTemperature, maxTemperature]`.
  */
-class Thermostat {
+class Thermostat implements Device {
+  readonly id: string;
+  private temperature: number;
+  private minTemperature: number;
+  private maxTemperature: number;
+  private step: number;
+
+  constructor(
+    id: string = "thermostat",
+    temperature: number = 20,
+    minTemperature: number = 10,
+    maxTemperature: number = 30,
+    step: number = 1
+  ) {
+    if (minTemperature > maxTemperature) {
+      throw new RangeError(`Invalid thermostat bounds: ${minTemperature} > ${maxTemperature}`);
+    }
+    this.id = id;
+    this.minTemperature = minTemperature;
+    this.maxTemperature = maxTemperature;
+    this.step = step;
+    this.temperature = this.clamp(temperature);
+  }
+
+  getTemperature(): number {
+    return this.temperature;
+  }
+
+  setTemperature(temperature: number): void {
+    this.temperature = this.clamp(temperature);
+    console.log(`Thermostat set to ${this.temperature}°C`);
+  }
+
   increaseTemperature(): void {
-    console.log("Thermostat temperature increased");
+    this.setTemperature(this.temperature + this.step);
   }
 
   decreaseTemperature(): void {
-    console.log("Thermostat temperature decreased");
+    this.setTemperature(this.temperature - this.step);
   }
+
+  getState(): DeviceState {
+    return { temperature: this.temperature };
+  }
+
+  restoreState(state: DeviceState): void {
+    this.setTemperature(Number(state.temperature));
+  }
+
+  private clamp(temperature: number): number {
+    return Math.min(this.maxTemperature, Math.max(this.minTemperature, temperature));
+  }
+}
+
+/**
+ * Composite command executing a sequence of commands as one unit.
+ * Undoing a macro undoes its commands in reverse order.
+ */
+class MacroCommand implements Command {
+  readonly name: string;
+  private commands: Command[];
+
+  constructor(name: string, commands: Command[]) {
+    this.name = name;
+    this.commands = commands;
+  }
+
+  execute(): void {
+    for (const command of this.commands) {
+      command.execute();
+    }
+  }
+
+  undo(): void {
+    for (const command of [...this.commands].reverse()) {
+      command.undo();
+    }
+  }
+
+  toData(): CommandData {
+    return { type: "macro", target: this.name, args: this.commands.map((command) => command.toData()) };
+  }
+
+  getDevices(): Device[] {
+    return [...new Set(this.commands.flatMap((command) => command.getDevices()))];
+  }
+}
+
+/**
+ * Recreates a command from its serialized form, resolving its target among the given devices.
+ *
+ * @param data The serialized command.
+ * @param devices The devices commands may target, keyed by id.
+ */
+function deserializeCommand(data: CommandData, devices: Map<string, Device>): Command {
+  if (data.type === "macro") {
+    return new MacroCommand(
+      data.target,
+      data.args.map((arg) => deserializeCommand(arg as CommandData, devices))
+    );
+  }
+
+  const device = devices.get(data.target);
+  if (!device) {
+    throw new Error(`Unknown device "${data.target}" in command "${data.type}"`);
+  }
+
+  switch (data.type) {
+    case "light.on":
+    case "light.off":
+      if (!(device instanceof Light)) {
+        throw new Error(`Device "${data.target}" is not a light`);
+      }
+      return data.type === "light.on" ? new LightOnCommand(device) : new LightOffCommand(device);
+    case "thermostat.up":
+    case "thermostat.down":
+      if (!(device instanceof Thermostat)) {
+        throw new Error(`Device "${data.target}" is not a thermostat`);
+      }
+      return data.type === "thermostat.up" ? new ThermostatUpCommand(device) : new ThermostatDownCommand(device);
+    case "device.restore":
+      return new RestoreStateCommand(device, data.args[0] as DeviceState);
+    default:
+      throw new Error(`Unknown command type "${data.type}"`);
+  }
+}
+
+/**
+ * Line of the command journal: either an executed command or a snapshot of every device.
+ */
+type JournalEntry =
+  | ({ kind: "command"; seq: number; timestamp: number } & CommandData)
+  | { kind: "snapshot"; seq: number; timestamp: number; devices: Record<string, DeviceState> };
+
+/**
+ * Error thrown when a journal line before the last one cannot be parsed.
+ */
+class JournalCorruptError extends Error {
+  readonly line: number;
+
+  constructor(line: number, reason: string) {
+    super(`Journal line ${line} is corrupt: ${reason}`);
+    this.name = "JournalCorruptError";
+    this.line = line;
+  }
+}
+
+/**
+ * Append-only storage for journal lines.
+ */
+interface JournalStorage {
+  append(line: string): void;
+  readLines(): string[];
+}
+
+/**
+ * Journal storage kept in memory.
+ */
+class InMemoryJournalStorage implements JournalStorage {
+  private lines: string[] = [];
+
+  append(line: string): void {
+    this.lines.push(line);
+  }
+
+  readLines(): string[] {
+    return [...this.lines];
+  }
+}
+
+/**
+ * Journal storage backed by an append-only NDJSON file.
+ */
+class FileJournalStorage implements JournalStorage {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+    // A crash while appending can leave a last line without its newline; drop it so
+    // new lines do not join it
+    if (existsSync(path)) {
+      const content = readFileSync(path);
+      truncateSync(path, content.lastIndexOf(0x0a) + 1);
+    }
+  }
+
+  append(line: string): void {
+    appendFileSync(this.path, line + "\n");
+  }
+
+  readLines(): string[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return readFileSync(this.path, "utf8")
+      .split("\n")
+      .filter((line) => line.trim() !== "");
+  }
+}
+
+/**
+ * Append-only journal of the commands applied to a set of devices.
+ * A new journal starts with a snapshot of every device, and another one is appended
+ * after each `snapshotEvery` commands, so replay only needs the entries written since
+ * the latest snapshot.
+ */
+class CommandJournal {
+  private storage: JournalStorage;
+  private devices: Device[];
+  private snapshotEvery: number;
+  private now: () => number;
+  private seq: number;
+  private commandsSinceSnapshot: number = 0;
+
+  constructor(storage: JournalStorage, devices: Device[], snapshotEvery: number = 100, now: () => number = Date.now) {
+    this.storage = storage;
+    this.devices = devices;
+    this.snapshotEvery = snapshotEvery;
+    this.now = now;
+    this.seq = storage.readLines().length;
+    // Commands are relative ("up", "down"), so replay needs the state they started from
+    if (this.seq === 0) {
+      this.snapshot();
+    }
+  }
+
+  record(data: CommandData): void {
+    this.write({ kind: "command", seq: this.seq, timestamp: this.now(), ...data });
+    this.commandsSinceSnapshot++;
+    if (this.commandsSinceSnapshot >= this.snapshotEvery) {
+      this.snapshot();
+    }
+  }
+
+  snapshot(): void {
+    const devices: Record<string, DeviceState> = {};
+    for (const device of this.devices) {
+      devices[device.id] = device.getState();
+    }
+    this.write({ kind: "snapshot", seq: this.seq, timestamp: this.now(), devices });
+    this.commandsSinceSnapshot = 0;
+  }
+
+  private write(entry: JournalEntry): void {
+    this.storage.append(JSON.stringify(entry));
+    this.seq++;
+  }
+}
+
+/**
+ * Rebuilds device state from a journal: restores the latest snapshot, then re-executes
+ * every command recorded after it. An incomplete last line, as left by a crash while
+ * appending, is ignored.
+ *
+ * @param storage The journal to replay.
+ * @param devices The devices to rebuild, keyed by id.
+ * @returns The number of commands replayed after the snapshot.
+ * @throws JournalCorruptError if a line other than the last one cannot be parsed.
+ */
+function replayJournal(storage: JournalStorage, devices: Map<string, Device>): number {
+  const lines = storage.readLines();
+  const entries: JournalEntry[] = [];
+  lines.forEach((line, index) => {
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      if (index !== lines.length - 1) {
+        throw new JournalCorruptError(index + 1, (error as Error).message);
+      }
+    }
+  });
+
+  let start = 0;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.kind === "snapshot") {
+      for (const [id, state] of Object.entries(entry.devices)) {
+        devices.get(id)?.restoreState(state);
+      }
+      start = i + 1;
+      break;
+    }
+  }
+
+  let replayed = 0;
+  for (const entry of entries.slice(start)) {
+    if (entry.kind === "command") {
+      deserializeCommand(entry, devices).execute();
+      replayed++;
+    }
+  }
+  return replayed;
+}
+
+/**
+ * Serializable description of a recorded macro: the buttons it presses, in order.
+ */
+interface MacroDefinition {
+  name: string;
+  button: number;
+  steps: number[];
+}
+
+/**
+ * Entry in the remote control history, remembering which button executed the command
+ * (`null` for commands run directly, such as scheduled ones).
+ */
+interface HistoryEntry {
+  button: number | null;
+  command: Command;
+}
+
+/**
+ * Named slot pairing the two buttons that control one device, like on a universal remote.
+ * `labels` name the two sides, e.g. `["on", "off"]` or `["up", "down"]`.
+ */
+interface Slot {
+  name: string;
+  labels: [string, string];
+  buttons: [number, number];
 }
 
 /**
  * Invoker class representing the remote control.
+ * Executed commands are kept on an undo stack; undone commands can be redone
+ * until a new button is pressed. Button presses can be recorded into macros,
+ * which are assigned to new buttons and can be exported to and imported from JSON.
+ * Buttons can also be grouped into named slots controlling one device each.
  */
 class RemoteControl {
   private commands: Command[] = [];
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private macros: MacroDefinition[] = [];
+  private recording: { name: string; steps: number[] } | null = null;
+  private journal: CommandJournal | null = null;
+  private slots: Map<string, Slot> = new Map();
+
+  /**
+   * Records every command this remote control applies, including the effect of undos.
+   */
+  setJournal(journal: CommandJournal): void {
+    this.journal = journal;
+  }
 
-  addCommand(command: Command): void {
+  /**
+   * Assigns a command to the next free button and returns the button index.
+   */
+  addCommand(command: Command): number {
     this.commands.push(command);
+    return this.commands.length - 1;
+  }
+
+  /**
+   * Assigns a pair of commands to a named slot, e.g. "living-room light" with on/off commands.
+   */
+  setSlot(
+    name: string,
+    onCommand: Command,
+    offCommand: Command,
+    labels: [string, string] = ["on", "off"]
+  ): Slot {
+    const slotName = normalizeSlotName(name);
+    if (this.slots.has(slotName)) {
+      throw new Error(`Slot "${slotName}" is already assigned`);
+    }
+    const slot: Slot = {
+      name: slotName,
+      labels: [labels[0].toLowerCase(), labels[1].toLowerCase()],
+      buttons: [this.addCommand(onCommand), this.addCommand(offCommand)],
+    };
+    this.slots.set(slotName, slot);
+    return slot;
+  }
+
+  getSlot(name: string): Slot | undefined {
+    return this.slots.get(normalizeSlotName(name));
+  }
+
+  getSlots(): Slot[] {
+    return [...this.slots.values()];
+  }
+
+  getCommand(index: number): Command | undefined {
+    return this.commands[index];
   }
 
   pressButton(index: number): void {
     if (index >= 0 && index < this.commands.length) {
-      this.commands[index].execute();
+      this.apply({ button: index, command: this.commands[index] });
+      this.recording?.steps.push(index);
     } else {
       console.log("Invalid button press");
     }
   }
+
+  /**
+   * Executes a command that is not assigned to a button, keeping it in the undo history.
+   * Errors thrown by the command propagate and leave the history untouched.
+   */
+  run(command: Command): void {
+    this.apply({ button: null, command });
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  undo(): void {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      console.log("Nothing to undo");
+      return;
+    }
+    entry.command.undo();
+    for (const device of entry.command.getDevices()) {
+      this.journal?.record(new RestoreStateCommand(device, device.getState()).toData());
+    }
+    this.redoStack.push(entry);
+    if (entry.button !== null) {
+      this.recording?.steps.pop();
+    }
+  }
+
+  redo(): void {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      console.log("Nothing to redo");
+      return;
+    }
+    entry.command.execute();
+    this.journal?.record(entry.command.toData());
+    this.undoStack.push(entry);
+    if (entry.button !== null) {
+      this.recording?.steps.push(entry.button);
+    }
+  }
+
+  /**
+   * Starts recording button presses into a macro with the given name.
+   * Undoing a press while recording also removes it from the macro.
+   */
+  startRecording(name: string): void {
+    if (this.recording) {
+      throw new Error(`Already recording macro "${this.recording.name}"`);
+    }
+    this.recording = { name, steps: [] };
+  }
+
+  /**
+   * Stops recording and assigns the recorded macro to the next free button.
+   *
+   * @returns The button index the macro was assigned to.
+   */
+  stopRecording(): number {
+    if (!this.recording) {
+      throw new Error("Not recording a macro");
+    }
+    const { name, steps } = this.recording;
+    this.recording = null;
+    if (steps.length === 0) {
+      throw new Error(`Macro "${name}" has no recorded steps`);
+    }
+    return this.addMacro(name, steps);
+  }
+
+  /**
+   * Serializes every macro assigned to this remote control.
+   */
+  exportMacros(): string {
+    return JSON.stringify(this.macros, null, 2);
+  }
+
+  /**
+   * Restores macros exported from a remote control whose device buttons are configured the same way.
+   * Each macro is assigned to the next free button; references between macros are remapped accordingly.
+   *
+   * @returns The button indices the macros were assigned to.
+   */
+  importMacros(json: string): number[] {
+    const definitions: MacroDefinition[] = JSON.parse(json);
+    if (!Array.isArray(definitions)) {
+      throw new Error("Macro document must be an array of macro definitions");
+    }
+
+    const remapped = new Map<number, number>();
+    const buttons: number[] = [];
+    for (const definition of definitions) {
+      if (
+        typeof definition.name !== "string" ||
+        !Number.isInteger(definition.button) ||
+        !Array.isArray(definition.steps) ||
+        definition.steps.length === 0
+      ) {
+        throw new Error(`Invalid macro definition: ${JSON.stringify(definition)}`);
+      }
+      const steps = definition.steps.map((step) => {
+        if (!Number.isInteger(step) || step < 0 || step >= definition.button) {
+          throw new Error(`Macro "${definition.name}" refers to invalid button ${step}`);
+        }
+        return remapped.get(step) ?? step;
+      });
+      const button = this.addMacro(definition.name, steps);
+      remapped.set(definition.button, button);
+      buttons.push(button);
+    }
+    return buttons;
+  }
+
+  private apply(entry: HistoryEntry): void {
+    entry.command.execute();
+    this.journal?.record(entry.command.toData());
+    this.undoStack.push(entry);
+    this.redoStack = [];
+  }
+
+  private addMacro(name: string, steps: number[]): number {
+    const commands = steps.map((step) => {
+      if (step < 0 || step >= this.commands.length) {
+        throw new Error(`Macro "${name}" refers to unassigned button ${step}`);
+      }
+      return this.commands[step];
+    });
+    const button = this.addCommand(new MacroCommand(name, commands));
+    this.macros.push({ name, button, steps });
+    return button;
+  }
+}
+
+/**
+ * Clock interface used for timestamps and timers, so time can be simulated.
+ * `schedule` returns a function that cancels the pending callback.
+ */
+interface Clock {
+  now(): number;
+  schedule(callback: () => void, delayMs: number): () => void;
+}
+
+/**
+ * Clock backed by the system time and `setTimeout`.
+ */
+class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const timer = setTimeout(callback, delayMs);
+    return () => clearTimeout(timer);
+  }
+}
+
+/**
+ * Virtual clock that only moves when `advance` is called, running due callbacks in order.
+ */
+class VirtualClock implements Clock {
+  private time: number;
+  private timers: { at: number; seq: number; callback: () => void }[] = [];
+  private seq: number = 0;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const timer = { at: this.time + delayMs, seq: this.seq++, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((t) => t !== timer);
+    };
+  }
+
+  advance(ms: number): void {
+    const target = this.time + ms;
+    for (;;) {
+      const due = this.timers
+        .filter((t) => t.at <= target)
+        .sort((a, b) => a.at - b.at || a.seq - b.seq)[0];
+      if (!due) {
+        break;
+      }
+      this.timers = this.timers.filter((t) => t !== due);
+      this.time = due.at;
+      due.callback();
+    }
+    this.time = target;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the next local time at `hours:minutes` strictly after `now`.
+ */
+function nextTimeOfDay(now: number, hours: number, minutes: number = 0): number {
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= now) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/**
+ * Options for scheduling a command.
+ */
+interface ScheduleOptions {
+  at: number;
+  everyMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+}
+
+type JobStatus = "scheduled" | "completed" | "failed" | "cancelled";
+
+/**
+ * Command scheduled to run once or on a recurring interval.
+ */
+interface ScheduledJob {
+  readonly id: number;
+  readonly command: Command;
+  status: JobStatus;
+  nextRunAt: number | null;
+  runs: number;
+  failures: number;
+  lastError: Error | null;
+}
+
+/**
+ * Scheduler running commands at a given time or on a recurring interval.
+ * A failing run is retried up to `retries` times, `retryDelayMs` apart; a recurring job
+ * keeps its schedule even when one of its runs ultimately fails. After a run, a recurring
+ * job moves on to its first slot still ahead, so missed slots are not caught up.
+ */
+class CommandScheduler {
+  private clock: Clock;
+  private execute: (command: Command) => void;
+  private jobs: Map<number, ScheduledJob> = new Map();
+  private timers: Map<number, () => void> = new Map();
+  private nextJobId: number = 1;
+
+  constructor(clock: Clock = new SystemClock(), execute: (command: Command) => void = (command) => command.execute()) {
+    this.clock = clock;
+    this.execute = execute;
+  }
+
+  schedule(command: Command, options: ScheduleOptions): ScheduledJob {
+    if (options.everyMs !== undefined && options.everyMs <= 0) {
+      throw new RangeError(`Recurring interval must be positive, got ${options.everyMs}`);
+    }
+    const job: ScheduledJob = {
+      id: this.nextJobId++,
+      command,
+      status: "scheduled",
+      nextRunAt: options.at,
+      runs: 0,
+      failures: 0,
+      lastError: null,
+    };
+    this.jobs.set(job.id, job);
+    this.arm(job, options, options.at, options.at, 0);
+    return job;
+  }
+
+  cancel(jobId: number): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== "scheduled") {
+      return false;
+    }
+    this.timers.get(jobId)?.();
+    this.timers.delete(jobId);
+    job.status = "cancelled";
+    job.nextRunAt = null;
+    return true;
+  }
+
+  getJobs(): ScheduledJob[] {
+    return [...this.jobs.values()];
+  }
+
+  /**
+   * Sets the timer for a run at `runAt`. `scheduledAt` is the slot the run belongs to,
+   * which differs from `runAt` for retries; recurring runs are spaced from it.
+   */
+  private arm(job: ScheduledJob, options: ScheduleOptions, scheduledAt: number, runAt: number, attempt: number): void {
+    const delay = Math.max(0, runAt - this.clock.now());
+    this.timers.set(job.id, this.clock.schedule(() => this.runJob(job, options, scheduledAt, attempt), delay));
+  }
+
+  private runJob(job: ScheduledJob, options: ScheduleOptions, scheduledAt: number, attempt: number): void {
+    this.timers.delete(job.id);
+    try {
+      this.execute(job.command);
+      job.runs++;
+      job.lastError = null;
+    } catch (error) {
+      job.lastError = error as Error;
+      // The command may have cancelled its own job
+      if (job.status !== "scheduled") {
+        return;
+      }
+      if (attempt < (options.retries ?? 0)) {
+        const retryAt = this.clock.now() + (options.retryDelayMs ?? 0);
+        job.nextRunAt = retryAt;
+        this.arm(job, options, scheduledAt, retryAt, attempt + 1);
+        return;
+      }
+      job.failures++;
+    }
+    if (job.status !== "scheduled") {
+      return;
+    }
+
+    if (options.everyMs !== undefined) {
+      // Missed slots (a start in the past, a stalled process) are skipped, not run back to back
+      const elapsedSlots = Math.floor((this.clock.now() - scheduledAt) / options.everyMs);
+      const nextAt = scheduledAt + options.everyMs * Math.max(1, elapsedSlots + 1);
+      job.nextRunAt = nextAt;
+      this.arm(job, options, nextAt, nextAt, 0);
+    } else {
+      job.status = job.lastError ? "failed" : "completed";
+      job.nextRunAt = null;
+    }
+  }
+}
+
+/**
+ * Normalizes a slot name so lookups ignore case and repeated whitespace.
+ */
+function normalizeSlotName(name: string): string {
+  return name.trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+/**
+ * Largest repeat count a text command may ask for.
+ */
+const MAX_REPEAT_COUNT = 100;
+
+type InterpreterErrorCode = "empty-input" | "unknown-device" | "unknown-action" | "invalid-count";
+
+/**
+ * Structured error describing why a text command could not be interpreted.
+ */
+interface InterpreterError {
+  code: InterpreterErrorCode;
+  message: string;
+  input: string;
+}
+
+/**
+ * Parsed text command: which slot button to press and how many times.
+ */
+interface ParsedCommand {
+  slot: string;
+  action: string;
+  button: number;
+  count: number;
+}
+
+type InterpretResult = { ok: true; command: ParsedCommand } | { ok: false; error: InterpreterError };
+
+/**
+ * Interpreter turning text such as `"living-room light on"` or `"thermostat up 3"` into slot presses.
+ * The grammar is `<slot name> <action> [count]`, where the action is one of the slot labels.
+ */
+class RemoteInterpreter {
+  private remote: RemoteControl;
+
+  constructor(remote: RemoteControl) {
+    this.remote = remote;
+  }
+
+  parse(input: string): InterpretResult {
+    const words = normalizeSlotName(input).split(" ").filter((word) => word !== "");
+    const fail = (code: InterpreterErrorCode, message: string): InterpretResult => ({
+      ok: false,
+      error: { code, message, input },
+    });
+
+    if (words.length === 0) {
+      return fail("empty-input", "Expected a command such as \"thermostat up 2\"");
+    }
+
+    let count = 1;
+    const last = words[words.length - 1];
+    if (/^-?\d+$/.test(last)) {
+      count = Number(last);
+      words.pop();
+      if (count < 1 || count > MAX_REPEAT_COUNT) {
+        return fail("invalid-count", `Repeat count must be between 1 and ${MAX_REPEAT_COUNT}, got ${last}`);
+      }
+    }
+
+    // Match the longest slot name the input starts with; the next word must be the action.
+    for (let length = words.length; length > 0; length--) {
+      const slot = this.remote.getSlot(words.slice(0, length).join(" "));
+      if (!slot) {
+        continue;
+      }
+      if (length === words.length) {
+        return fail("unknown-action", `Expected ${slot.labels.join(" or ")} after "${slot.name}"`);
+      }
+      if (length !== words.length - 1) {
+        return fail("unknown-action", `Unexpected words after "${slot.name}": "${words.slice(length).join(" ")}"`);
+      }
+      const action = words[length];
+      const side = slot.labels.indexOf(action);
+      if (side === -1) {
+        return fail("unknown-action", `"${slot.name}" supports ${slot.labels.join(" and ")}, not "${action}"`);
+      }
+      return { ok: true, command: { slot: slot.name, action, button: slot.buttons[side], count } };
+    }
+
+    const known = this.remote.getSlots().map((slot) => slot.name);
+    return fail("unknown-device", `No slot matches "${words.join(" ")}" (known: ${known.join(", ")})`);
+  }
+
+  /**
+   * Parses the input and, if valid, executes it as a single undoable step.
+   */
+  execute(input: string): InterpretResult {
+    const result = this.parse(input);
+    if (!result.ok) {
+      return result;
+    }
+
+    const { button, count, slot, action } = result.command;
+    if (count === 1) {
+      this.remote.pressButton(button);
+    } else {
+      const command = this.remote.getCommand(button)!;
+      const commands: Command[] = [];
+      for (let i = 0; i < count; i++) {
+        commands.push(command);
+      }
+      this.remote.run(new MacroCommand(`${slot} ${action} ${count}`, commands));
+    }
+    return result;
+  }
 }
 
 /**
  * Client code using the Command pattern.
  */
-function configureRemoteControl(): RemoteControl {
+function configureRemoteControl(livingRoomLight: Light, thermostat: Thermostat): RemoteControl {
   const remoteControl = new RemoteControl();
-  const livingRoomLight = new Light();
-  const thermostat = new Thermostat();
 
   const lightOnCommand = new LightOnCommand(livingRoomLight);
   const lightOffCommand = new LightOffCommand(livingRoomLight);
@@ -134,10 +1108,112 @@ function configureRemoteControl(): RemoteControl {
 /**
  * Usage example.
  */
-const remoteControl = configureRemoteControl();
+const livingRoomLight = new Light("living-room");
+const thermostat = new Thermostat("thermostat", 20, 16, 22);
+const remoteControl = configureRemoteControl(livingRoomLight, thermostat);
 
 remoteControl.pressButton(0); // Output: Light is ON
 remoteControl.pressButton(1); // Output: Light is OFF
-remoteControl.pressButton(2); // Output: Thermostat temperature increased
-remoteControl.pressButton(3); // Output: Thermostat temperature decreased
+remoteControl.pressButton(2); // Output: Thermostat set to 21°C
+remoteControl.pressButton(3); // Output: Thermostat set to 20°C
 remoteControl.pressButton(4); // Output: Invalid button press
+
+remoteControl.undo(); // Output: Thermostat set to 21°C
+remoteControl.undo(); // Output: Thermostat set to 20°C
+remoteControl.undo(); // Output: Light is ON
+remoteControl.redo(); // Output: Light is OFF
+
+remoteControl.pressButton(2); // Output: Thermostat set to 21°C
+remoteControl.pressButton(2); // Output: Thermostat set to 22°C
+remoteControl.undo(); // Output: Thermostat set to 21°C
+remoteControl.undo(); // Output: Thermostat set to 20°C
+console.log(remoteControl.canRedo()); // Output: true
+
+// Record "movie night": lights off, thermostat down twice.
+remoteControl.pressButton(0); // Output: Light is ON
+remoteControl.startRecording("movie night");
+remoteControl.pressButton(1); // Output: Light is OFF
+remoteControl.pressButton(3); // Output: Thermostat set to 19°C
+remoteControl.pressButton(3); // Output: Thermostat set to 18°C
+const movieNightButton = remoteControl.stopRecording();
+
+remoteControl.undo(); // Output: Thermostat set to 19°C
+remoteControl.undo(); // Output: Thermostat set to 20°C
+remoteControl.undo(); // Output: Light is ON
+
+remoteControl.pressButton(movieNightButton); // Output: Light is OFF Thermostat set to 19°C Thermostat set to 18°C
+remoteControl.undo(); // Output: Thermostat set to 19°C Thermostat set to 20°C Light is ON
+
+// Macros survive a restart through their JSON form.
+const savedMacros = remoteControl.exportMacros();
+const restartedRemote = configureRemoteControl(livingRoomLight, thermostat);
+const [restoredMovieNight] = restartedRemote.importMacros(savedMacros);
+restartedRemote.pressButton(restoredMovieNight); // Output: Light is OFF Thermostat set to 19°C Thermostat set to 18°C
+
+// Journal what the remote does, then rebuild the devices after a restart.
+const journalStorage = new InMemoryJournalStorage();
+restartedRemote.setJournal(new CommandJournal(journalStorage, [livingRoomLight, thermostat], 3));
+restartedRemote.pressButton(0); // Output: Light is ON
+restartedRemote.pressButton(2); // Output: Thermostat set to 19°C
+restartedRemote.pressButton(2); // Output: Thermostat set to 20°C
+restartedRemote.undo(); // Output: Thermostat set to 19°C
+restartedRemote.pressButton(restoredMovieNight); // Output: Light is OFF Thermostat set to 18°C Thermostat set to 17°C
+
+const rebuiltLight = new Light("living-room");
+const rebuiltThermostat = new Thermostat("thermostat", 20, 16, 22);
+const replayed = replayJournal(
+  journalStorage,
+  new Map<string, Device>([
+    [rebuiltLight.id, rebuiltLight],
+    [rebuiltThermostat.id, rebuiltThermostat],
+  ])
+);
+console.log(replayed, rebuiltLight.getState(), rebuiltThermostat.getState()); // Output: 2 { on: false } { temperature: 17 }
+
+// Schedule "thermostat down at 23:00 every day" on a virtual clock starting at 22:00.
+const clock = new VirtualClock(new Date(2024, 0, 1, 22, 0).getTime());
+const scheduler = new CommandScheduler(clock, (command) => restartedRemote.run(command));
+const nightlyJob = scheduler.schedule(new ThermostatDownCommand(thermostat), {
+  at: nextTimeOfDay(clock.now(), 23),
+  everyMs: DAY_MS,
+});
+
+clock.advance(60 * 60 * 1000); // Output: Thermostat set to 16°C
+clock.advance(DAY_MS); // Output: Thermostat set to 16°C
+console.log(nightlyJob.runs, new Date(nightlyJob.nextRunAt!).getHours()); // Output: 2 23
+scheduler.cancel(nightlyJob.id);
+clock.advance(DAY_MS); // Output: (nothing, the job was cancelled)
+
+// A run that fails is retried before the job is marked as failed.
+let attempts = 0;
+const flakyCommand: Command = {
+  execute: () => {
+    if (++attempts < 3) {
+      throw new Error("Thermostat unreachable");
+    }
+    thermostat.setTemperature(21);
+  },
+  undo: () => thermostat.setTemperature(16),
+  toData: () => ({ type: "device.restore", target: thermostat.id, args: [{ temperature: 21 }] }),
+  getDevices: () => [thermostat],
+};
+const retryJob = scheduler.schedule(flakyCommand, { at: clock.now() + 1000, retries: 3, retryDelayMs: 5000 });
+clock.advance(60 * 1000); // Output: Thermostat set to 21°C
+console.log(retryJob.status, attempts); // Output: completed 3
+
+// Named slots and a text interpreter, like a universal remote.
+const universalRemote = new RemoteControl();
+const kitchenLight = new Light("kitchen");
+universalRemote.setSlot("living-room light", new LightOnCommand(livingRoomLight), new LightOffCommand(livingRoomLight));
+universalRemote.setSlot("kitchen light", new LightOnCommand(kitchenLight), new LightOffCommand(kitchenLight));
+universalRemote.setSlot("thermostat", new ThermostatUpCommand(thermostat), new ThermostatDownCommand(thermostat), [
+  "up",
+  "down",
+]);
+
+const interpreter = new RemoteInterpreter(universalRemote);
+interpreter.execute("living-room light on"); // Output: Light is ON
+interpreter.execute("Thermostat down 3"); // Output: Thermostat set to 20°C Thermostat set to 19°C Thermostat set to 18°C
+universalRemote.undo(); // Output: Thermostat set to 19°C Thermostat set to 20°C Thermostat set to 21°C
+console.log(interpreter.execute("garage door open")); // Output: { ok: false, error: { code: 'unknown-device', ... } }
+console.log(interpreter.execute("kitchen light dim")); // Output: { ok: false, error: { code: 'unknown-action', ... } }
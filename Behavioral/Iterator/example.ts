@@ -4,10 +4,22 @@
 class Song {
   private title: string;
   private artist: string;
+  private duration: number | null;
+  private album: string | null;
+  private filePath: string | null;
 
-  constructor(title: string, artist: string) {
+  constructor(
+    title: string,
+    artist: string,
+    duration: number | null = null,
+    album: string | null = null,
+    filePath: string | null = null
+  ) {
     this.title = title;
     this.artist = artist;
+    this.duration = duration;
+    this.album = album;
+    this.filePath = filePath;
   }
 
   getTitle(): string {
@@ -17,37 +29,248 @@ class Song {
   getArtist(): string {
     return this.artist;
   }
+
+  /**
+   * Duration in seconds, or `null` when unknown.
+   */
+  getDuration(): number | null {
+    return this.duration;
+  }
+
+  getAlbum(): string | null {
+    return this.album;
+  }
+
+  getFilePath(): string | null {
+    return this.filePath;
+  }
 }
 
 /**
- * MyIterator interface defining methods for iterating over songs.
+ * MyIterator interface defining methods for iterating over items (songs by default).
  */
-interface MyIterator {
+interface MyIterator<T = Song> {
   hasNext(): boolean;
-  next(): Song;
+  next(): T;
+}
+
+/**
+ * Error thrown by a fail-fast iterator when its playlist was modified during iteration.
+ */
+class ConcurrentModificationError extends Error {
+  constructor() {
+    super("Playlist was modified during iteration");
+    this.name = "ConcurrentModificationError";
+  }
 }
 
 /**
  * Concrete iterator class for iterating over a playlist.
+ * The iterator is fail-fast: it throws a ConcurrentModificationError as soon as
+ * the playlist is modified by anything other than the iterator itself.
  */
 class PlaylistIterator implements MyIterator {
   private playlist: Playlist;
   private currentPosition: number;
+  private expectedModCount: number;
+  private canRemove: boolean = false;
 
   constructor(playlist: Playlist) {
     this.playlist = playlist;
     this.currentPosition = 0;
+    this.expectedModCount = playlist.getModCount();
   }
 
   hasNext(): boolean {
-    return this.currentPosition < this.playlist.getSongs().length;
+    this.checkForModification();
+    return this.currentPosition < this.playlist.size();
   }
 
   next(): Song {
-    const song = this.playlist.getSongs()[this.currentPosition];
+    if (!this.hasNext()) {
+      throw new RangeError("No more songs to play");
+    }
+    const song = this.playlist.getSongAt(this.currentPosition);
     this.currentPosition++;
+    this.canRemove = true;
+    return song;
+  }
+
+  /**
+   * Removes the song last returned by `next` without invalidating this iterator.
+   * It can be called at most once per call to `next`.
+   */
+  remove(): Song {
+    this.checkForModification();
+    if (!this.canRemove) {
+      throw new RangeError("remove() must follow a call to next()");
+    }
+    this.canRemove = false;
+    this.currentPosition--;
+    const song = this.playlist.removeSong(this.currentPosition);
+    this.expectedModCount = this.playlist.getModCount();
     return song;
   }
+
+  private checkForModification(): void {
+    if (this.playlist.getModCount() !== this.expectedModCount) {
+      throw new ConcurrentModificationError();
+    }
+  }
+}
+
+/**
+ * Iterator class walking a copy of the songs taken when it was created,
+ * unaffected by later changes to the playlist.
+ */
+class SnapshotPlaylistIterator implements MyIterator {
+  private songs: readonly Song[];
+  private currentPosition: number = 0;
+
+  constructor(playlist: Playlist) {
+    this.songs = playlist.getSongs();
+  }
+
+  hasNext(): boolean {
+    return this.currentPosition < this.songs.length;
+  }
+
+  next(): Song {
+    if (!this.hasNext()) {
+      throw new RangeError("No more songs to play");
+    }
+    return this.songs[this.currentPosition++];
+  }
+}
+
+/**
+ * Playback modes a PlaybackIterator can switch between.
+ */
+type PlaybackMode = "normal" | "reverse" | "shuffle" | "repeat-one" | "repeat-all";
+
+/**
+ * Returns a deterministic pseudo-random generator (mulberry32) for the given seed.
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Iterator class for playing a playlist in a selectable playback mode.
+ * The mode can be changed while iterating: playback continues from the current song.
+ * Songs added with `playNext` are played before the rest of the playlist.
+ * Like SnapshotPlaylistIterator, it plays a copy of the songs: the one taken when it was
+ * created, refreshed whenever the mode changes. Other changes to the playlist are not seen.
+ */
+class PlaybackIterator implements MyIterator {
+  private playlist: Playlist;
+  private mode: PlaybackMode;
+  private seed: number;
+  private order: Song[] = [];
+  private position: number = -1;
+  private current: Song | null = null;
+  private upNext: Song[] = [];
+
+  constructor(playlist: Playlist, mode: PlaybackMode = "normal", seed: number = Date.now()) {
+    this.playlist = playlist;
+    this.mode = mode;
+    this.seed = seed;
+    this.reorder();
+  }
+
+  getMode(): PlaybackMode {
+    return this.mode;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getCurrent(): Song | null {
+    return this.current;
+  }
+
+  setMode(mode: PlaybackMode): void {
+    this.mode = mode;
+    this.reorder();
+  }
+
+  /**
+   * Queues a song to play right after the current one, ahead of previously queued songs.
+   */
+  playNext(song: Song): void {
+    this.upNext.unshift(song);
+  }
+
+  hasNext(): boolean {
+    if (this.upNext.length > 0) {
+      return true;
+    }
+    switch (this.mode) {
+      case "repeat-one":
+        return this.current !== null || this.order.length > 0;
+      case "repeat-all":
+        return this.order.length > 0;
+      default:
+        return this.position + 1 < this.order.length;
+    }
+  }
+
+  next(): Song {
+    if (!this.hasNext()) {
+      throw new RangeError("No more songs to play");
+    }
+
+    const queued = this.upNext.shift();
+    if (queued) {
+      this.current = queued;
+      return queued;
+    }
+    if (this.mode === "repeat-one" && this.current) {
+      return this.current;
+    }
+
+    this.position++;
+    if (this.position >= this.order.length) {
+      this.position = 0;
+    }
+    this.current = this.order[this.position];
+    return this.current;
+  }
+
+  /**
+   * Rebuilds the play order for the current mode, keeping the position at the last song
+   * played from the playlist (queued songs do not move it).
+   */
+  private reorder(): void {
+    const songs = [...this.playlist.getSongs()];
+    const anchor = this.position >= 0 ? this.order[this.position] : null;
+
+    if (this.mode === "reverse") {
+      songs.reverse();
+    } else if (this.mode === "shuffle") {
+      const random = createSeededRandom(this.seed);
+      for (let i = songs.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [songs[i], songs[j]] = [songs[j], songs[i]];
+      }
+      // The song already playing counts as played: move it to the front of the shuffle.
+      if (anchor && songs.includes(anchor)) {
+        songs.splice(songs.indexOf(anchor), 1);
+        songs.unshift(anchor);
+      }
+    }
+
+    this.order = songs;
+    this.position = anchor ? songs.indexOf(anchor) : -1;
+  }
 }
 
 /**
@@ -59,21 +282,486 @@ interface Aggregate {
 
 /**
  * Concrete aggregate class representing a playlist.
+ * Besides `createIterator`, a playlist supports the ES iteration protocols,
+ * so it works with `for...of`, `for await...of`, spread and `Array.from`.
  */
-class Playlist implements Aggregate {
+class Playlist implements Aggregate, Iterable<Song>, AsyncIterable<Song> {
   private songs: Song[] = [];
+  private modCount: number = 0;
 
   addSong(song: Song): void {
-    this.songs.push(song);
+    this.insertSong(song, this.songs.length);
+  }
+
+  insertSong(song: Song, at: number): void {
+    this.checkIndex(at, this.songs.length);
+    this.songs.splice(at, 0, song);
+    this.modCount++;
+  }
+
+  removeSong(index: number): Song {
+    this.checkIndex(index, this.songs.length - 1);
+    const [song] = this.songs.splice(index, 1);
+    this.modCount++;
+    return song;
   }
 
+  moveSong(from: number, to: number): void {
+    this.checkIndex(from, this.songs.length - 1);
+    this.checkIndex(to, this.songs.length - 1);
+    const [song] = this.songs.splice(from, 1);
+    this.songs.splice(to, 0, song);
+    this.modCount++;
+  }
+
+  /**
+   * Returns a copy of the songs; modify the playlist through its methods instead.
+   */
   getSongs(): Song[] {
-    return this.songs;
+    return [...this.songs];
+  }
+
+  getSongAt(index: number): Song {
+    this.checkIndex(index, this.songs.length - 1);
+    return this.songs[index];
+  }
+
+  size(): number {
+    return this.songs.length;
   }
 
-  createIterator(): MyIterator {
+  /**
+   * Number of structural modifications so far, used by iterators to detect concurrent changes.
+   */
+  getModCount(): number {
+    return this.modCount;
+  }
+
+  createIterator(): PlaylistIterator {
     return new PlaylistIterator(this);
   }
+
+  createSnapshotIterator(): MyIterator {
+    return new SnapshotPlaylistIterator(this);
+  }
+
+  createPlaybackIterator(mode: PlaybackMode = "normal", seed?: number): PlaybackIterator {
+    return new PlaybackIterator(this, mode, seed);
+  }
+
+  [Symbol.iterator](): Iterator<Song> {
+    return toIterable(this.createIterator());
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Song> {
+    yield* toIterable(this.createIterator());
+  }
+
+  private checkIndex(index: number, max: number): void {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new RangeError(`Index ${index} is out of range [0, ${max}]`);
+    }
+  }
+}
+
+/**
+ * Adapts a MyIterator to the ES iteration protocol.
+ */
+function* toIterable<T>(iterator: MyIterator<T>): IterableIterator<T> {
+  while (iterator.hasNext()) {
+    yield iterator.next();
+  }
+}
+
+/**
+ * Adapts any ES iterable to a MyIterator, pulling one item ahead to answer `hasNext`.
+ */
+function fromIterable<T>(iterable: Iterable<T>): MyIterator<T> {
+  const source = iterable[Symbol.iterator]();
+  let pending = source.next();
+  return {
+    hasNext: () => !pending.done,
+    next: () => {
+      if (pending.done) {
+        throw new RangeError("Iterator is exhausted");
+      }
+      const value = pending.value;
+      pending = source.next();
+      return value;
+    },
+  };
+}
+
+/**
+ * Lazily transforms each item.
+ * Like the other combinators below, it pulls from its source only as far as
+ * the consumer asks, without materializing the list.
+ */
+function map<T, U>(iterator: MyIterator<T>, fn: (item: T) => U): MyIterator<U> {
+  return {
+    hasNext: () => iterator.hasNext(),
+    next: () => fn(iterator.next()),
+  };
+}
+
+/**
+ * Lazily keeps the items matching the predicate.
+ */
+function filter<T>(iterator: MyIterator<T>, predicate: (item: T) => boolean): MyIterator<T> {
+  let lookahead: { value: T } | null = null;
+  const advance = () => {
+    while (lookahead === null && iterator.hasNext()) {
+      const item = iterator.next();
+      if (predicate(item)) {
+        lookahead = { value: item };
+      }
+    }
+  };
+  return {
+    hasNext: () => {
+      advance();
+      return lookahead !== null;
+    },
+    next: () => {
+      advance();
+      if (lookahead === null) {
+        throw new RangeError("Iterator is exhausted");
+      }
+      const { value } = lookahead;
+      lookahead = null;
+      return value;
+    },
+  };
+}
+
+/**
+ * Lazily yields at most `count` items.
+ */
+function take<T>(iterator: MyIterator<T>, count: number): MyIterator<T> {
+  let taken = 0;
+  return {
+    hasNext: () => taken < count && iterator.hasNext(),
+    next: () => {
+      if (taken >= count) {
+        throw new RangeError("Iterator is exhausted");
+      }
+      taken++;
+      return iterator.next();
+    },
+  };
+}
+
+/**
+ * Lazily drops the first `count` items.
+ */
+function skip<T>(iterator: MyIterator<T>, count: number): MyIterator<T> {
+  let skipped = false;
+  const advance = () => {
+    if (skipped) {
+      return;
+    }
+    skipped = true;
+    for (let i = 0; i < count && iterator.hasNext(); i++) {
+      iterator.next();
+    }
+  };
+  return {
+    hasNext: () => {
+      advance();
+      return iterator.hasNext();
+    },
+    next: () => {
+      advance();
+      return iterator.next();
+    },
+  };
+}
+
+/**
+ * Lazily pairs items from two iterators, stopping when either runs out.
+ */
+function zip<A, B>(first: MyIterator<A>, second: MyIterator<B>): MyIterator<[A, B]> {
+  return {
+    hasNext: () => first.hasNext() && second.hasNext(),
+    next: () => [first.next(), second.next()],
+  };
+}
+
+/**
+ * Lazily groups items into arrays of `size` (the last one may be shorter).
+ */
+function chunk<T>(iterator: MyIterator<T>, size: number): MyIterator<T[]> {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`Chunk size must be a positive integer, got ${size}`);
+  }
+  return {
+    hasNext: () => iterator.hasNext(),
+    next: () => {
+      const items: T[] = [];
+      while (items.length < size && iterator.hasNext()) {
+        items.push(iterator.next());
+      }
+      return items;
+    },
+  };
+}
+
+/**
+ * Problem found while reading a playlist file. The offending line is skipped or partially used.
+ */
+interface ParseWarning {
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of reading a playlist file: the songs that could be read and the problems encountered.
+ */
+interface ParseResult {
+  playlist: Playlist;
+  warnings: ParseWarning[];
+}
+
+/**
+ * Interface for playlist file formats that can be written and read back.
+ */
+interface PlaylistFormat {
+  readonly name: string;
+  write(playlist: Playlist): string;
+  read(text: string): ParseResult;
+}
+
+/**
+ * Formats the "Artist - Title" display string used by M3U and PLS.
+ */
+function formatDisplayTitle(song: Song): string {
+  return song.getArtist() ? `${song.getArtist()} - ${song.getTitle()}` : song.getTitle();
+}
+
+/**
+ * Splits an "Artist - Title" display string; without a separator the whole string is the title.
+ */
+function parseDisplayTitle(display: string): { artist: string; title: string } {
+  const separator = display.indexOf(" - ");
+  if (separator === -1) {
+    return { artist: "", title: display.trim() };
+  }
+  return { artist: display.slice(0, separator).trim(), title: display.slice(separator + 3).trim() };
+}
+
+/**
+ * Returns the file path of a song, which M3U and PLS entries cannot do without.
+ */
+function requireFilePath(song: Song, format: string): string {
+  const filePath = song.getFilePath();
+  if (!filePath) {
+    throw new Error(`Cannot write "${song.getTitle()}" as ${format}: the song has no file path`);
+  }
+  return filePath;
+}
+
+/**
+ * Extended M3U format: `#EXTINF:<seconds>,<artist> - <title>` and `#EXTALB:<album>`
+ * lines describe the file path on the next non-comment line.
+ */
+class M3uFormat implements PlaylistFormat {
+  readonly name = "M3U";
+
+  write(playlist: Playlist): string {
+    const lines = ["#EXTM3U"];
+    for (const song of playlist) {
+      lines.push(`#EXTINF:${song.getDuration() ?? -1},${formatDisplayTitle(song)}`);
+      if (song.getAlbum()) {
+        lines.push(`#EXTALB:${song.getAlbum()}`);
+      }
+      lines.push(requireFilePath(song, this.name));
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  read(text: string): ParseResult {
+    const playlist = new Playlist();
+    const warnings: ParseWarning[] = [];
+    let info: { duration: number | null; artist: string; title: string } | null = null;
+    let album: string | null = null;
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      const lineNumber = index + 1;
+
+      if (line === "" || line === "#EXTM3U") {
+        return;
+      }
+      if (line.startsWith("#EXTINF:")) {
+        const match = /^#EXTINF:(-?\d+(?:\.\d+)?)\s*,(.*)$/.exec(line);
+        if (!match) {
+          warnings.push({ line: lineNumber, message: `Malformed #EXTINF line: "${line}"` });
+          info = null;
+          return;
+        }
+        const seconds = Number(match[1]);
+        info = { duration: seconds < 0 ? null : seconds, ...parseDisplayTitle(match[2]) };
+        return;
+      }
+      if (line.startsWith("#EXTALB:")) {
+        album = line.slice("#EXTALB:".length).trim() || null;
+        return;
+      }
+      if (line.startsWith("#")) {
+        return;
+      }
+
+      const fileName = line.split(/[\\/]/).pop() ?? line;
+      const { duration = null, artist = "", title = fileName } = info ?? {};
+      playlist.addSong(new Song(title, artist, duration, album, line));
+      info = null;
+      album = null;
+    });
+
+    if (info || album) {
+      warnings.push({ line: text.split(/\r?\n/).length, message: "Song information without a file path at end of file" });
+    }
+    return { playlist, warnings };
+  }
+}
+
+/**
+ * PLS format: an INI-style `[playlist]` section with numbered `File`, `Title` and `Length` keys.
+ * PLS has no album field, so albums are not preserved.
+ */
+class PlsFormat implements PlaylistFormat {
+  readonly name = "PLS";
+
+  write(playlist: Playlist): string {
+    const lines = ["[playlist]"];
+    let number = 0;
+    for (const song of playlist) {
+      number++;
+      lines.push(`File${number}=${requireFilePath(song, this.name)}`);
+      lines.push(`Title${number}=${formatDisplayTitle(song)}`);
+      lines.push(`Length${number}=${song.getDuration() ?? -1}`);
+    }
+    lines.push(`NumberOfEntries=${number}`, "Version=2");
+    return lines.join("\n") + "\n";
+  }
+
+  read(text: string): ParseResult {
+    const playlist = new Playlist();
+    const warnings: ParseWarning[] = [];
+    const entries = new Map<number, { file?: string; title?: string; length?: number; line: number }>();
+    let declaredEntries: number | null = null;
+    let sawHeader = false;
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      const lineNumber = index + 1;
+
+      if (line === "" || line.startsWith(";")) {
+        return;
+      }
+      if (line.toLowerCase() === "[playlist]") {
+        sawHeader = true;
+        return;
+      }
+      const match = /^(File|Title|Length)(\d+)=(.*)$/i.exec(line);
+      if (match) {
+        const number = Number(match[2]);
+        const entry = entries.get(number) ?? { line: lineNumber };
+        const key = match[1].toLowerCase();
+        if (key === "file") {
+          entry.file = match[3].trim();
+        } else if (key === "title") {
+          entry.title = match[3].trim();
+        } else if (/^-?\d+$/.test(match[3].trim())) {
+          entry.length = Number(match[3]);
+        } else {
+          warnings.push({ line: lineNumber, message: `Invalid length "${match[3]}" for entry ${number}` });
+        }
+        entries.set(number, entry);
+        return;
+      }
+      const numberOfEntries = /^NumberOfEntries=(\d+)$/i.exec(line);
+      if (numberOfEntries) {
+        declaredEntries = Number(numberOfEntries[1]);
+        return;
+      }
+      if (/^Version=/i.test(line)) {
+        return;
+      }
+      warnings.push({ line: lineNumber, message: `Unrecognized line: "${line}"` });
+    });
+
+    if (!sawHeader) {
+      warnings.push({ line: 1, message: "Missing [playlist] header" });
+    }
+    for (const [number, entry] of [...entries].sort(([a], [b]) => a - b)) {
+      if (!entry.file) {
+        warnings.push({ line: entry.line, message: `Entry ${number} has no File${number} key` });
+        continue;
+      }
+      const fileName = entry.file.split(/[\\/]/).pop() ?? entry.file;
+      const { artist, title } = entry.title ? parseDisplayTitle(entry.title) : { artist: "", title: fileName };
+      const duration = entry.length === undefined || entry.length < 0 ? null : entry.length;
+      playlist.addSong(new Song(title, artist, duration, null, entry.file));
+    }
+    if (declaredEntries !== null && declaredEntries !== entries.size) {
+      warnings.push({ line: 0, message: `NumberOfEntries is ${declaredEntries} but ${entries.size} entries were found` });
+    }
+    return { playlist, warnings };
+  }
+}
+
+/**
+ * JSON format preserving every song field.
+ */
+class JsonPlaylistFormat implements PlaylistFormat {
+  readonly name = "JSON";
+
+  write(playlist: Playlist): string {
+    const songs = [...playlist].map((song) => ({
+      title: song.getTitle(),
+      artist: song.getArtist(),
+      duration: song.getDuration(),
+      album: song.getAlbum(),
+      filePath: song.getFilePath(),
+    }));
+    return JSON.stringify({ version: 1, songs }, null, 2) + "\n";
+  }
+
+  read(text: string): ParseResult {
+    const playlist = new Playlist();
+    const warnings: ParseWarning[] = [];
+
+    let document: { songs?: unknown };
+    try {
+      document = JSON.parse(text);
+    } catch (error) {
+      warnings.push({ line: 1, message: `Invalid JSON: ${(error as Error).message}` });
+      return { playlist, warnings };
+    }
+    if (!document || !Array.isArray(document.songs)) {
+      warnings.push({ line: 1, message: 'Expected an object with a "songs" array' });
+      return { playlist, warnings };
+    }
+
+    document.songs.forEach((entry: Record<string, unknown>, index: number) => {
+      const optional = <T>(value: unknown, type: string): T | null => (typeof value === type ? (value as T) : null);
+      if (!entry || typeof entry.title !== "string") {
+        warnings.push({ line: 0, message: `Song ${index} has no title and was skipped` });
+        return;
+      }
+      playlist.addSong(
+        new Song(
+          entry.title,
+          optional<string>(entry.artist, "string") ?? "",
+          optional<number>(entry.duration, "number"),
+          optional<string>(entry.album, "string"),
+          optional<string>(entry.filePath, "string")
+        )
+      );
+    });
+    return { playlist, warnings };
+  }
 }
 
 /**
@@ -98,3 +786,91 @@ playlist.addSong(new Song("Song3", "Artist3"));
 
 const iterator = playlist.createIterator();
 iterateSongs(iterator);
+
+for (const song of playlist) {
+  console.log(song.getTitle()); // Output: Song1, Song2, Song3
+}
+console.log([...playlist].length); // Output: 3
+console.log(Array.from(playlist, (song) => song.getArtist())); // Output: [ 'Artist1', 'Artist2', 'Artist3' ]
+
+const titles = map(
+  take(
+    filter(playlist.createIterator(), (song) => song.getArtist() !== "Artist1"),
+    1
+  ),
+  (song) => song.getTitle()
+);
+console.log([...toIterable(titles)]); // Output: [ 'Song2' ]
+
+const numbered = zip(fromIterable([1, 2, 3]), skip(playlist.createIterator(), 1));
+console.log([...toIterable(map(numbered, ([n, song]) => `${n}. ${song.getTitle()}`))]); // Output: [ '1. Song2', '2. Song3' ]
+console.log([...toIterable(chunk(map(playlist.createIterator(), (song) => song.getTitle()), 2))]); // Output: [ [ 'Song1', 'Song2' ], [ 'Song3' ] ]
+
+(async () => {
+  for await (const song of playlist) {
+    console.log(`Streaming: ${song.getTitle()}`); // Output: Streaming: Song1, Streaming: Song2, Streaming: Song3
+  }
+})();
+
+const longPlaylist = new Playlist();
+for (let i = 1; i <= 6; i++) {
+  longPlaylist.addSong(new Song(`Track${i}`, "Band"));
+}
+const titlesOf = (iterator: MyIterator, count: number) =>
+  [...toIterable(take(iterator, count))].map((song) => song.getTitle());
+
+// A seeded shuffle always produces the same order.
+console.log(titlesOf(longPlaylist.createPlaybackIterator("shuffle", 42), 6)); // Output: [ 'Track2', 'Track1', 'Track5', 'Track6', 'Track3', 'Track4' ]
+console.log(titlesOf(longPlaylist.createPlaybackIterator("reverse"), 3)); // Output: [ 'Track6', 'Track5', 'Track4' ]
+console.log(titlesOf(longPlaylist.createPlaybackIterator("repeat-all"), 8)); // Output: [ 'Track1', ..., 'Track6', 'Track1', 'Track2' ]
+
+// Switching modes and queueing songs while playing.
+const player = longPlaylist.createPlaybackIterator();
+console.log(titlesOf(player, 2)); // Output: [ 'Track1', 'Track2' ]
+player.setMode("repeat-one");
+console.log(titlesOf(player, 2)); // Output: [ 'Track2', 'Track2' ]
+player.setMode("reverse");
+player.playNext(new Song("Request", "Listener"));
+console.log(titlesOf(player, 3)); // Output: [ 'Request', 'Track1' ]
+
+// Fail-fast iteration detects changes made behind the iterator's back.
+const editablePlaylist = new Playlist();
+["Intro", "Verse", "Chorus", "Outro"].forEach((title) => editablePlaylist.addSong(new Song(title, "Band")));
+try {
+  for (const song of editablePlaylist) {
+    if (song.getTitle() === "Verse") {
+      editablePlaylist.removeSong(0);
+    }
+  }
+} catch (error) {
+  console.log(error instanceof ConcurrentModificationError, (error as Error).message); // Output: true Playlist was modified during iteration
+}
+
+// The iterator's own remove() keeps it valid; snapshot iterators ignore changes altogether.
+const editor = editablePlaylist.createIterator();
+while (editor.hasNext()) {
+  if (editor.next().getTitle() === "Chorus") {
+    editor.remove();
+  }
+}
+const snapshot = editablePlaylist.createSnapshotIterator();
+editablePlaylist.moveSong(1, 0);
+editablePlaylist.insertSong(new Song("Bridge", "Band"), 1);
+console.log([...toIterable(snapshot)].map((song) => song.getTitle())); // Output: [ 'Verse', 'Outro' ]
+console.log([...editablePlaylist].map((song) => song.getTitle())); // Output: [ 'Outro', 'Bridge', 'Verse' ]
+
+// Playlists round-trip through M3U, PLS and JSON; malformed lines are reported, not thrown.
+const album = new Playlist();
+album.addSong(new Song("Airbag", "Radiohead", 284, "OK Computer", "/music/ok-computer/01-airbag.mp3"));
+album.addSong(new Song("Paranoid Android", "Radiohead", 383, "OK Computer", "/music/ok-computer/02-paranoid-android.mp3"));
+
+const describeSong = (song: Song) =>
+  [song.getTitle(), song.getArtist(), song.getDuration(), song.getAlbum(), song.getFilePath()].join("|");
+for (const format of [new M3uFormat(), new PlsFormat(), new JsonPlaylistFormat()]) {
+  const { playlist: restored, warnings } = format.read(format.write(album));
+  const same = [...restored].map(describeSong).join() === [...album].map(describeSong).join();
+  console.log(format.name, same, warnings.length); // Output: M3U true 0, PLS false 0 (albums are lost), JSON true 0
+}
+
+const damaged = new M3uFormat().read("#EXTM3U\n#EXTINF:abc,Broken\n/music/a.mp3\n#EXTINF:200,Band - Song\n/music/b.mp3\n");
+console.log([...damaged.playlist].map((song) => song.getTitle()), damaged.warnings); // Output: [ 'a.mp3', 'Song' ] [ { line: 2, message: 'Malformed #EXTINF line: "#EXTINF:abc,Broken"' } ]
@@ -1,24 +1,155 @@
+/**
+ * Events exchanged between components, discriminated by their `type` topic.
+ */
+type HomeEvent =
+  | { type: "light.on" }
+  | { type: "light.off" }
+  | { type: "temperature.changed"; value: number }
+  | { type: "camera.recording.started" }
+  | { type: "camera.recording.stopped" }
+  | { type: "device.online"; id: string }
+  | { type: "device.offline"; id: string };
+
+type Topic = HomeEvent["type"];
+
+/**
+ * The event type published on a given topic.
+ */
+type EventOf<T extends Topic> = Extract<HomeEvent, { type: T }>;
+
+/**
+ * Topic subscription: an exact topic, a prefix wildcard such as `"camera.*"`, or `"*"` for everything.
+ */
+type TopicPattern = Topic | `${string}.*` | "*";
+
+type EventHandler<E extends HomeEvent = HomeEvent> = (event: E, sender: Component) => void;
+
+/**
+ * Returns whether a topic matches a subscription pattern.
+ * `"light.*"` matches `"light.on"` as well as deeper topics such as `"light.color.changed"`.
+ */
+function topicMatches(pattern: TopicPattern, topic: Topic): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  if (pattern.endsWith(".*")) {
+    return topic.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === topic;
+}
+
+/**
+ * Queries components can ask each other, mapped to the type of their answer.
+ */
+interface QueryResponses {
+  "temperature.current": number;
+  "light.is-on": boolean;
+  "camera.is-recording": boolean;
+}
+
+type QueryTopic = keyof QueryResponses;
+
+type QueryResponder<Q extends QueryTopic> = (sender: Component) => QueryResponses[Q] | Promise<QueryResponses[Q]>;
+
+/**
+ * Answer to a query, with the component that gave it.
+ */
+interface QueryReply<Q extends QueryTopic> {
+  responder: Component;
+  value: QueryResponses[Q];
+}
+
+interface RequestOptions {
+  timeoutMs?: number;
+}
+
+/**
+ * Error thrown when no component (other than the sender) answers a query topic.
+ */
+class NoResponderError extends Error {
+  readonly topic: QueryTopic;
+
+  constructor(topic: QueryTopic) {
+    super(`No component answers "${topic}"`);
+    this.name = "NoResponderError";
+    this.topic = topic;
+  }
+}
+
+/**
+ * Error thrown when no answer to a query arrives within its timeout.
+ */
+class QueryTimeoutError extends Error {
+  readonly topic: QueryTopic;
+
+  constructor(topic: QueryTopic, timeoutMs: number) {
+    super(`No answer to "${topic}" within ${timeoutMs} ms`);
+    this.name = "QueryTimeoutError";
+    this.topic = topic;
+  }
+}
+
 /**
  * Mediator interface defining the communication methods.
  */
 interface HomeAutomationMediator {
-  sendMessage(sender: Component, message: string): void;
+  sendMessage(sender: Component, event: HomeEvent): void;
+  subscribe<T extends Topic>(topic: T, handler: EventHandler<EventOf<T>>, subscriber?: Component): () => void;
+  subscribe(pattern: TopicPattern, handler: EventHandler, subscriber?: Component): () => void;
+  respond<Q extends QueryTopic>(topic: Q, responder: QueryResponder<Q>, component: Component): () => void;
+  request<Q extends QueryTopic>(sender: Component, topic: Q, options?: RequestOptions): Promise<QueryReply<Q>>;
+  requestAll<Q extends QueryTopic>(sender: Component, topic: Q, options?: RequestOptions): Promise<QueryReply<Q>[]>;
+  heartbeat(component: Component): void;
 }
 
 /**
  * Base component class representing a component in the smart home.
+ * Components only receive the events matching the topics they subscribe to.
  */
 abstract class Component {
+  readonly id: string;
   protected mediator: HomeAutomationMediator;
 
-  constructor(mediator: HomeAutomationMediator) {
+  constructor(mediator: HomeAutomationMediator, id: string) {
     this.mediator = mediator;
+    this.id = id;
+  }
+
+  abstract receiveMessage(event: HomeEvent, sender: Component): void;
+
+  /**
+   * Current state of the device as a plain JSON object.
+   */
+  abstract getState(): Record<string, unknown>;
+
+  /**
+   * Operations automation rules may invoke on this component, keyed by name.
+   */
+  getActions(): Record<string, (...args: number[]) => void> {
+    return {};
+  }
+
+  sendMessage(event: HomeEvent): void {
+    this.mediator.sendMessage(this, event);
+  }
+
+  /**
+   * Tells the mediator this device is still alive.
+   */
+  heartbeat(): void {
+    this.mediator.heartbeat(this);
+  }
+
+  protected subscribe(pattern: TopicPattern): () => void {
+    return this.mediator.subscribe(pattern, (event, sender) => this.receiveMessage(event, sender), this);
   }
 
-  abstract receiveMessage(message: string): void;
+  protected respondTo<Q extends QueryTopic>(topic: Q, responder: QueryResponder<Q>): () => void {
+    return this.mediator.respond(topic, responder, this);
+  }
 
-  sendMessage(message: string): void {
-    this.mediator.sendMessage(this, message);
+  protected async request<Q extends QueryTopic>(topic: Q, options?: RequestOptions): Promise<QueryResponses[Q]> {
+    return (await this.mediator.request(this, topic, options)).value;
   }
 }
 
@@ -26,22 +157,36 @@ abstract class Component {
  * Concrete component class representing a light.
  */
 class Light extends Component {
-  constructor(mediator: HomeAutomationMediator) {
-    super(mediator);
+  private on: boolean = false;
+
+  constructor(mediator: HomeAutomationMediator, id: string = "light") {
+    super(mediator, id);
+    this.subscribe("camera.*");
+    this.respondTo("light.is-on", () => this.on);
   }
 
-  receiveMessage(message: string): void {
-    console.log(`Light received message: ${message}`);
+  receiveMessage(event: HomeEvent, sender: Component): void {
+    console.log(`Light received ${event.type} from ${sender.id}`);
+  }
+
+  getState(): Record<string, unknown> {
+    return { on: this.on };
+  }
+
+  getActions(): Record<string, (...args: number[]) => void> {
+    return { turnOn: () => this.turnOn(), turnOff: () => this.turnOff() };
   }
 
   turnOn(): void {
+    this.on = true;
     console.log("Light is ON");
-    this.sendMessage("Light turned on");
+    this.sendMessage({ type: "light.on" });
   }
 
   turnOff(): void {
+    this.on = false;
     console.log("Light is OFF");
-    this.sendMessage("Light turned off");
+    this.sendMessage({ type: "light.off" });
   }
 }
 
@@ -49,22 +194,40 @@ class Light extends Component {
  * Concrete component class representing a thermostat.
  */
 class Thermostat extends Component {
-  constructor(mediator: HomeAutomationMediator) {
-    super(mediator);
+  private temperature: number = 20;
+
+  constructor(mediator: HomeAutomationMediator, id: string = "thermostat", temperature: number = 20) {
+    super(mediator, id);
+    this.temperature = temperature;
+    this.subscribe("light.*");
+    this.respondTo("temperature.current", () => this.temperature);
   }
 
-  receiveMessage(message: string): void {
-    console.log(`Thermostat received message: ${message}`);
+  receiveMessage(event: HomeEvent, sender: Component): void {
+    console.log(`Thermostat received ${event.type} from ${sender.id}`);
+  }
+
+  getState(): Record<string, unknown> {
+    return { temperature: this.temperature };
+  }
+
+  getActions(): Record<string, (...args: number[]) => void> {
+    return {
+      increaseTemperature: () => this.increaseTemperature(),
+      decreaseTemperature: () => this.decreaseTemperature(),
+    };
   }
 
   increaseTemperature(): void {
-    console.log("Thermostat temperature increased");
-    this.sendMessage("Temperature increased");
+    this.temperature++;
+    console.log(`Thermostat temperature increased to ${this.temperature}`);
+    this.sendMessage({ type: "temperature.changed", value: this.temperature });
   }
 
   decreaseTemperature(): void {
-    console.log("Thermostat temperature decreased");
-    this.sendMessage("Temperature decreased");
+    this.temperature--;
+    console.log(`Thermostat temperature decreased to ${this.temperature}`);
+    this.sendMessage({ type: "temperature.changed", value: this.temperature });
   }
 }
 
@@ -72,49 +235,687 @@ class Thermostat extends Component {
  * Concrete component class representing a security camera.
  */
 class SecurityCamera extends Component {
-  constructor(mediator: HomeAutomationMediator) {
-    super(mediator);
+  private recording: boolean = false;
+
+  constructor(mediator: HomeAutomationMediator, id: string = "camera") {
+    super(mediator, id);
+    this.subscribe("light.*");
+  }
+
+  receiveMessage(event: HomeEvent, sender: Component): void {
+    console.log(`Security Camera received ${event.type} from ${sender.id}`);
   }
 
-  receiveMessage(message: string): void {
-    console.log(`Security Camera received message: ${message}`);
+  getState(): Record<string, unknown> {
+    return { recording: this.recording };
+  }
+
+  getActions(): Record<string, (...args: number[]) => void> {
+    return { startRecording: () => this.startRecording(), stopRecording: () => this.stopRecording() };
   }
 
   startRecording(): void {
+    this.recording = true;
     console.log("Security Camera started recording");
-    this.sendMessage("Recording started");
+    this.sendMessage({ type: "camera.recording.started" });
   }
 
   stopRecording(): void {
+    this.recording = false;
     console.log("Security Camera stopped recording");
-    this.sendMessage("Recording stopped");
+    this.sendMessage({ type: "camera.recording.stopped" });
+  }
+
+  /**
+   * Asks the thermostat for the current temperature, e.g. to annotate recordings.
+   */
+  async checkTemperature(): Promise<number> {
+    const temperature = await this.request("temperature.current", { timeoutMs: 500 });
+    console.log(`Security Camera sees ${temperature}°C`);
+    return temperature;
+  }
+}
+
+/**
+ * Condition an automation rule checks before running its actions.
+ * Times are local `"HH:MM"` strings; a `between` window may wrap past midnight.
+ */
+type RuleCondition =
+  | { type: "after"; time: string }
+  | { type: "before"; time: string }
+  | { type: "between"; from: string; to: string }
+  | { type: "value"; op: "<" | "<=" | ">" | ">=" | "=="; value: number };
+
+/**
+ * Action invoking a named operation on a target component.
+ */
+interface RuleAction {
+  target: string;
+  action: string;
+  args?: number[];
+}
+
+/**
+ * Declarative automation rule: when an event matching `when` is sent and every
+ * condition holds, the actions run in order.
+ */
+interface AutomationRule {
+  id: string;
+  when: TopicPattern;
+  conditions?: RuleCondition[];
+  actions: RuleAction[];
+}
+
+/**
+ * Error thrown when a rule is invalid or refers to an unknown component or action.
+ */
+class RuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleError";
+  }
+}
+
+/**
+ * Converts a `"HH:MM"` string to minutes since midnight.
+ */
+function parseTimeOfDay(time: string): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!match) {
+    throw new RuleError(`Invalid time "${time}", expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Returns whether a rule condition holds for an event at the given time.
+ */
+function conditionHolds(condition: RuleCondition, event: HomeEvent, now: Date): boolean {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  switch (condition.type) {
+    case "after":
+      return minutes >= parseTimeOfDay(condition.time);
+    case "before":
+      return minutes < parseTimeOfDay(condition.time);
+    case "between": {
+      const from = parseTimeOfDay(condition.from);
+      const to = parseTimeOfDay(condition.to);
+      return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+    }
+    case "value": {
+      if (!("value" in event)) {
+        return false;
+      }
+      const value = event.value;
+      switch (condition.op) {
+        case "<":
+          return value < condition.value;
+        case "<=":
+          return value <= condition.value;
+        case ">":
+          return value > condition.value;
+        case ">=":
+          return value >= condition.value;
+        case "==":
+          return value === condition.value;
+      }
+    }
+  }
+}
+
+/**
+ * Checks the shape of a rule, e.g. one loaded from JSON.
+ *
+ * @throws RuleError describing the first problem found.
+ */
+function validateRule(rule: AutomationRule): void {
+  const where = typeof rule?.id === "string" ? `Rule "${rule.id}"` : "Rule";
+  if (typeof rule?.id !== "string" || rule.id === "") {
+    throw new RuleError(`${where} must have a non-empty string "id"`);
+  }
+  if (typeof rule.when !== "string") {
+    throw new RuleError(`${where} must have a "when" topic pattern`);
+  }
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+    throw new RuleError(`${where} must have at least one action`);
   }
+  for (const condition of rule.conditions ?? []) {
+    switch (condition?.type) {
+      case "after":
+      case "before":
+        parseTimeOfDay(condition.time);
+        break;
+      case "between":
+        parseTimeOfDay(condition.from);
+        parseTimeOfDay(condition.to);
+        break;
+      case "value":
+        if (!["<", "<=", ">", ">=", "=="].includes(condition.op) || typeof condition.value !== "number") {
+          throw new RuleError(`${where} has an invalid value condition`);
+        }
+        break;
+      default:
+        throw new RuleError(`${where} has an unknown condition type "${(condition as { type?: string })?.type}"`);
+    }
+  }
+  for (const action of rule.actions) {
+    if (typeof action?.target !== "string" || typeof action.action !== "string") {
+      throw new RuleError(`${where} has an action without a "target" and "action"`);
+    }
+  }
+}
+
+/**
+ * Subscription registered with the mediator.
+ */
+interface Subscription {
+  pattern: TopicPattern;
+  handler: EventHandler;
+  subscriber: Component | null;
+}
+
+/**
+ * Query responder registered with the mediator.
+ */
+interface Responder {
+  topic: QueryTopic;
+  responder: QueryResponder<QueryTopic>;
+  component: Component;
+}
+
+const DEFAULT_QUERY_TIMEOUT_MS = 1000;
+const DEFAULT_HEARTBEAT_TIMEOUT_MS = 60 * 1000;
+
+type PresenceStatus = "online" | "offline";
+
+/**
+ * Presence of a registered device, updated by its heartbeats and messages.
+ */
+interface Presence {
+  status: PresenceStatus;
+  lastSeen: number;
+}
+
+const DEFAULT_LOG_CAPACITY = 1000;
+
+/**
+ * Recorded message: who sent which event to whom, and when.
+ * `causedBy` is the seq of the message being dispatched when this one was sent
+ * (by a handler or an automation rule), or `null` for a message sent on its own.
+ * External subscribers, which have no id, are listed as `"external"`.
+ */
+interface MessageLogEntry {
+  seq: number;
+  timestamp: string;
+  sender: string;
+  recipients: string[];
+  event: HomeEvent;
+  causedBy: number | null;
+}
+
+/**
+ * Whole-home state snapshot, ready to be serialized as JSON.
+ */
+interface HomeSnapshot {
+  takenAt: string;
+  devices: {
+    id: string;
+    kind: string;
+    status: PresenceStatus;
+    lastSeen: string;
+    state: Record<string, unknown>;
+  }[];
 }
 
 /**
  * Concrete mediator class implementing the HomeAutomationMediator interface.
+ * Events are delivered to every matching subscription except the sender's own,
+ * then checked against the automation rules. A rule never re-triggers itself
+ * through the events its own actions send.
  */
 class ConcreteHomeAutomationMediator implements HomeAutomationMediator {
-  private components: Component[] = [];
+  private components: Map<string, Component> = new Map();
+  private subscriptions: Subscription[] = [];
+  private rules: AutomationRule[] = [];
+  private firingRules: Set<string> = new Set();
+  private responders: Responder[] = [];
+  private presence: Map<string, Presence> = new Map();
+  private now: () => Date;
+  private heartbeatTimeoutMs: number;
+  private log: MessageLogEntry[] = [];
+  private logCapacity: number;
+  private nextSeq: number = 1;
+  private dispatching: number[] = [];
+
+  constructor(
+    now: () => Date = () => new Date(),
+    heartbeatTimeoutMs: number = DEFAULT_HEARTBEAT_TIMEOUT_MS,
+    logCapacity: number = DEFAULT_LOG_CAPACITY
+  ) {
+    this.now = now;
+    this.heartbeatTimeoutMs = heartbeatTimeoutMs;
+    this.logCapacity = logCapacity;
+  }
+
+  /**
+   * Returns the recorded messages, oldest first. Only the latest `logCapacity` messages are kept.
+   */
+  getLog(): MessageLogEntry[] {
+    return [...this.log];
+  }
 
+  /**
+   * Exports the message log as NDJSON, one entry per line.
+   */
+  exportLog(): string {
+    return this.log.map((entry) => JSON.stringify(entry) + "\n").join("");
+  }
+
+  /**
+   * Registers a component under its id, which rules use to target it.
+   *
+   * @throws Error if a component is already registered with the same id. A rejected
+   * duplicate's subscriptions and query responders are dropped; those of the registered
+   * component are kept, even when it is the one being added again.
+   */
   addComponent(component: Component): void {
-    this.components.push(component);
+    const registered = this.components.get(component.id);
+    if (registered) {
+      if (registered !== component) {
+        this.dropHandlers(component);
+      }
+      throw new Error(`A component with id "${component.id}" is already registered`);
+    }
+    this.components.set(component.id, component);
+    this.presence.set(component.id, { status: "online", lastSeen: this.now().getTime() });
   }
 
-  sendMessage(sender: Component, message: string): void {
-    for (const component of this.components) {
-      if (component !== sender) {
-        component.receiveMessage(`${sender.constructor.name}: ${message}`);
+  /**
+   * Unregisters a component, dropping its subscriptions and query responders.
+   *
+   * @returns Whether a component with that id was registered.
+   */
+  removeComponent(id: string): boolean {
+    const component = this.components.get(id);
+    if (!component) {
+      return false;
+    }
+    this.components.delete(id);
+    this.presence.delete(id);
+    this.dropHandlers(component);
+    return true;
+  }
+
+  getComponent(id: string): Component | undefined {
+    return this.components.get(id);
+  }
+
+  getPresence(id: string): Presence | undefined {
+    const presence = this.presence.get(id);
+    return presence && { ...presence };
+  }
+
+  heartbeat(component: Component): void {
+    this.markSeen(component);
+  }
+
+  /**
+   * Marks devices that have not been seen within the heartbeat timeout as offline.
+   *
+   * @returns The ids of the devices that just went offline.
+   */
+  checkPresence(): string[] {
+    const now = this.now().getTime();
+    const wentOffline: string[] = [];
+    for (const [id, presence] of this.presence) {
+      if (presence.status === "online" && now - presence.lastSeen > this.heartbeatTimeoutMs) {
+        presence.status = "offline";
+        wentOffline.push(id);
       }
     }
+    for (const id of wentOffline) {
+      this.sendMessage(this.components.get(id)!, { type: "device.offline", id });
+    }
+    return wentOffline;
   }
+
+  /**
+   * Runs `checkPresence` every `intervalMs` until the returned function is called.
+   */
+  startPresenceMonitor(intervalMs: number = this.heartbeatTimeoutMs / 2): () => void {
+    const timer = setInterval(() => this.checkPresence(), intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Returns the presence and current state of every registered device.
+   */
+  snapshot(): HomeSnapshot {
+    return {
+      takenAt: this.now().toISOString(),
+      devices: [...this.components.values()].map((component) => {
+        const presence = this.presence.get(component.id)!;
+        return {
+          id: component.id,
+          kind: component.constructor.name,
+          status: presence.status,
+          lastSeen: new Date(presence.lastSeen).toISOString(),
+          state: component.getState(),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Adds an automation rule, checking that its targets and actions exist.
+   *
+   * @throws RuleError if the rule is invalid.
+   */
+  addRule(rule: AutomationRule): void {
+    validateRule(rule);
+    if (this.rules.some((existing) => existing.id === rule.id)) {
+      throw new RuleError(`Rule "${rule.id}" already exists`);
+    }
+    for (const action of rule.actions) {
+      const component = this.components.get(action.target);
+      if (!component) {
+        throw new RuleError(`Rule "${rule.id}" targets unknown component "${action.target}"`);
+      }
+      if (!(action.action in component.getActions())) {
+        throw new RuleError(`Rule "${rule.id}": ${action.target} has no action "${action.action}"`);
+      }
+    }
+    this.rules.push(rule);
+  }
+
+  /**
+   * Adds every rule from a JSON array of rules.
+   *
+   * @throws RuleError if the document or any rule is invalid; no rule is added in that case.
+   */
+  loadRules(json: string): void {
+    let rules: AutomationRule[];
+    try {
+      rules = JSON.parse(json);
+    } catch (error) {
+      throw new RuleError(`Rules are not valid JSON: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(rules)) {
+      throw new RuleError("Rules document must be an array");
+    }
+    const previous = [...this.rules];
+    try {
+      rules.forEach((rule) => this.addRule(rule));
+    } catch (error) {
+      this.rules = previous;
+      throw error;
+    }
+  }
+
+  subscribe<T extends Topic>(topic: T, handler: EventHandler<EventOf<T>>, subscriber?: Component): () => void;
+  subscribe(pattern: TopicPattern, handler: EventHandler, subscriber?: Component): () => void;
+  subscribe(pattern: TopicPattern, handler: EventHandler<never>, subscriber?: Component): () => void {
+    const subscription: Subscription = { pattern, handler: handler as EventHandler, subscriber: subscriber ?? null };
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+    };
+  }
+
+  respond<Q extends QueryTopic>(topic: Q, responder: QueryResponder<Q>, component: Component): () => void {
+    const entry: Responder = { topic, responder: responder as QueryResponder<QueryTopic>, component };
+    this.responders.push(entry);
+    return () => {
+      this.responders = this.responders.filter((r) => r !== entry);
+    };
+  }
+
+  /**
+   * Asks every responder for `topic` and resolves with the first answer.
+   *
+   * @throws NoResponderError if no other component answers the topic.
+   * @throws QueryTimeoutError if no responder answers within the timeout.
+   */
+  async request<Q extends QueryTopic>(
+    sender: Component,
+    topic: Q,
+    options: RequestOptions = {}
+  ): Promise<QueryReply<Q>> {
+    const responders = this.respondersFor(sender, topic);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      let pending = responders.length;
+      let lastError: unknown = null;
+      const timer = setTimeout(() => reject(new QueryTimeoutError(topic, timeoutMs)), timeoutMs);
+
+      for (const { responder, component } of responders) {
+        Promise.resolve()
+          .then(() => responder(sender))
+          .then(
+            (value) => {
+              clearTimeout(timer);
+              resolve({ responder: component, value: value as QueryResponses[Q] });
+            },
+            (error) => {
+              lastError = error;
+              if (--pending === 0) {
+                clearTimeout(timer);
+                reject(lastError);
+              }
+            }
+          );
+      }
+    });
+  }
+
+  /**
+   * Asks every responder for `topic` and resolves with the answers received within the timeout.
+   * Responders that fail or answer too late are left out.
+   *
+   * @throws NoResponderError if no other component answers the topic.
+   */
+  async requestAll<Q extends QueryTopic>(
+    sender: Component,
+    topic: Q,
+    options: RequestOptions = {}
+  ): Promise<QueryReply<Q>[]> {
+    const responders = this.respondersFor(sender, topic);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+    const replies: QueryReply<Q>[] = [];
+
+    await new Promise<void>((resolve) => {
+      let pending = responders.length;
+      const timer = setTimeout(resolve, timeoutMs);
+      const settle = () => {
+        if (--pending === 0) {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+
+      for (const { responder, component } of responders) {
+        Promise.resolve()
+          .then(() => responder(sender))
+          .then((value) => {
+            replies.push({ responder: component, value: value as QueryResponses[Q] });
+          })
+          .catch(() => undefined)
+          .then(settle);
+      }
+    });
+    return replies;
+  }
+
+  private respondersFor(sender: Component, topic: QueryTopic): Responder[] {
+    const responders = this.responders.filter(
+      (r) => r.topic === topic && r.component !== sender && this.isRegisteredOrNull(r.component)
+    );
+    if (responders.length === 0) {
+      throw new NoResponderError(topic);
+    }
+    return responders;
+  }
+
+  /**
+   * Delivers an event to its subscribers and automation rules. Messages from components
+   * that are not registered (removed, or rejected as duplicates) are ignored.
+   */
+  sendMessage(sender: Component, event: HomeEvent): void {
+    if (!this.isRegisteredOrNull(sender)) {
+      return;
+    }
+    // Presence events are sent by the mediator on the device's behalf
+    if (event.type !== "device.online" && event.type !== "device.offline") {
+      this.markSeen(sender);
+    }
+    const recipients = this.subscriptions.filter(
+      (subscription) =>
+        subscription.subscriber !== sender &&
+        this.isRegisteredOrNull(subscription.subscriber) &&
+        topicMatches(subscription.pattern, event.type)
+    );
+    const entry = this.record(sender, event, recipients);
+
+    this.dispatching.push(entry.seq);
+    try {
+      for (const subscription of recipients) {
+        subscription.handler(event, sender);
+      }
+      this.applyRules(event);
+    } finally {
+      this.dispatching.pop();
+    }
+  }
+
+  private record(sender: Component, event: HomeEvent, recipients: Subscription[]): MessageLogEntry {
+    const entry: MessageLogEntry = {
+      seq: this.nextSeq++,
+      timestamp: this.now().toISOString(),
+      sender: sender.id,
+      recipients: [...new Set(recipients.map((s) => s.subscriber?.id ?? "external"))],
+      event,
+      causedBy: this.dispatching.length > 0 ? this.dispatching[this.dispatching.length - 1] : null,
+    };
+    this.log.push(entry);
+    if (this.log.length > this.logCapacity) {
+      this.log.splice(0, this.log.length - this.logCapacity);
+    }
+    return entry;
+  }
+
+  /**
+   * Records that a registered device was just seen, bringing it back online if needed.
+   */
+  private markSeen(component: Component): void {
+    const presence = this.presence.get(component.id);
+    if (!presence || this.components.get(component.id) !== component) {
+      return;
+    }
+    presence.lastSeen = this.now().getTime();
+    if (presence.status === "offline") {
+      presence.status = "online";
+      this.sendMessage(component, { type: "device.online", id: component.id });
+    }
+  }
+
+  private dropHandlers(component: Component): void {
+    this.subscriptions = this.subscriptions.filter((s) => s.subscriber !== component);
+    this.responders = this.responders.filter((r) => r.component !== component);
+  }
+
+  /**
+   * Components only take part in messaging once registered; `null` stands for an external subscriber.
+   */
+  private isRegisteredOrNull(component: Component | null): boolean {
+    return component === null || this.components.get(component.id) === component;
+  }
+
+  private applyRules(event: HomeEvent): void {
+    const now = this.now();
+    for (const rule of this.rules) {
+      if (!topicMatches(rule.when, event.type)) {
+        continue;
+      }
+      if (!(rule.conditions ?? []).every((condition) => conditionHolds(condition, event, now))) {
+        continue;
+      }
+      if (this.firingRules.has(rule.id)) {
+        console.log(`Rule "${rule.id}" skipped: it would re-trigger itself`);
+        continue;
+      }
+
+      this.firingRules.add(rule.id);
+      try {
+        for (const action of rule.actions) {
+          this.components.get(action.target)?.getActions()[action.action](...(action.args ?? []));
+        }
+      } finally {
+        this.firingRules.delete(rule.id);
+      }
+    }
+  }
+}
+
+/**
+ * Outcome of replaying a captured message log.
+ */
+interface ReplayReport {
+  replayed: number;
+  skipped: { seq: number; reason: string }[];
+}
+
+/**
+ * Replays a captured NDJSON message log against a (fresh) mediator to reproduce a bug.
+ * Only messages sent on their own are re-sent: messages they caused are produced again
+ * by the handlers and rules of the target mediator. `setTime` is called with each
+ * message's original timestamp first, so time-based rules behave as they did.
+ *
+ * @param ndjson The exported message log.
+ * @param mediator The mediator whose registered components re-send the messages.
+ * @param setTime Optional hook moving the mediator's clock to the logged time.
+ */
+function replayMessageLog(
+  ndjson: string,
+  mediator: ConcreteHomeAutomationMediator,
+  setTime?: (time: Date) => void
+): ReplayReport {
+  const report: ReplayReport = { replayed: 0, skipped: [] };
+  const lines = ndjson.split("\n").filter((line) => line.trim() !== "");
+  const seen = new Set<number>();
+
+  for (const [index, line] of lines.entries()) {
+    let entry: MessageLogEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      report.skipped.push({ seq: -1, reason: `Line ${index + 1} is not valid JSON` });
+      continue;
+    }
+    seen.add(entry.seq);
+    // A caused message whose cause was evicted from the bounded log has to be replayed itself.
+    if (entry.causedBy !== null && seen.has(entry.causedBy)) {
+      continue;
+    }
+
+    const sender = mediator.getComponent(entry.sender);
+    if (!sender) {
+      report.skipped.push({ seq: entry.seq, reason: `Unknown sender "${entry.sender}"` });
+      continue;
+    }
+    setTime?.(new Date(entry.timestamp));
+    mediator.sendMessage(sender, entry.event);
+    report.replayed++;
+  }
+  return report;
 }
 
 /**
  * Client code using the Mediator pattern.
  */
-function testHomeAutomationSystem(): void {
-  const mediator = new ConcreteHomeAutomationMediator();
+async function testHomeAutomationSystem(): Promise<void> {
+  let currentTime = new Date(2024, 0, 1, 21, 30);
+  const mediator = new ConcreteHomeAutomationMediator(() => currentTime);
 
   const light = new Light(mediator);
   const thermostat = new Thermostat(mediator);
@@ -124,10 +925,106 @@ function testHomeAutomationSystem(): void {
   mediator.addComponent(thermostat);
   mediator.addComponent(securityCamera);
 
+  // Typed subscription: the handler receives the `value` of temperature events.
+  const stopWatching = mediator.subscribe("temperature.changed", (event) => {
+    console.log(`Temperature is now ${event.value}`);
+  });
+
   // Interacting with components
-  light.turnOn();
-  thermostat.increaseTemperature();
-  securityCamera.startRecording();
+  light.turnOn(); // Output: Light is ON, Thermostat received light.on from light, Security Camera received light.on from light
+  thermostat.increaseTemperature(); // Output: Thermostat temperature increased to 21, Temperature is now 21
+  securityCamera.startRecording(); // Output: Security Camera started recording, Light received camera.recording.started from camera
+
+  stopWatching();
+  thermostat.decreaseTemperature(); // Output: Thermostat temperature decreased to 20
+
+  // Automation rules, loaded from JSON.
+  mediator.loadRules(`[
+    {
+      "id": "night-recording-light",
+      "when": "camera.recording.started",
+      "conditions": [{ "type": "after", "time": "22:00" }],
+      "actions": [{ "target": "light", "action": "turnOn" }]
+    },
+    {
+      "id": "light-echo",
+      "when": "light.on",
+      "actions": [{ "target": "light", "action": "turnOn" }]
+    }
+  ]`);
+
+  securityCamera.startRecording(); // Output: (before 22:00, the rule does not fire)
+  currentTime = new Date(2024, 0, 1, 22, 15);
+  securityCamera.startRecording(); // Output: ..., Light is ON, ..., Rule "light-echo" skipped: it would re-trigger itself
+
+  try {
+    mediator.loadRules(`[{ "id": "broken", "when": "light.on", "actions": [{ "target": "Garage", "action": "open" }] }]`);
+  } catch (error) {
+    console.log((error as Error).message); // Output: Rule "broken" targets unknown component "Garage"
+  }
+
+  // Request/response queries between components.
+  await securityCamera.checkTemperature(); // Output: Security Camera sees 20°C
+  console.log((await mediator.request(securityCamera, "light.is-on")).value); // Output: true
+
+  const bedroomThermostat = new Thermostat(mediator, "bedroom-thermostat", 18);
+  mediator.addComponent(bedroomThermostat);
+  const readings = await mediator.requestAll(securityCamera, "temperature.current");
+  console.log(readings.map((reply) => reply.value)); // Output: [ 20, 18 ]
+
+  try {
+    await mediator.request(light, "camera.is-recording");
+  } catch (error) {
+    console.log(error instanceof NoResponderError, (error as Error).message); // Output: true No component answers "camera.is-recording"
+  }
+
+  mediator.respond("camera.is-recording", () => new Promise<boolean>(() => undefined), securityCamera);
+  try {
+    await mediator.request(light, "camera.is-recording", { timeoutMs: 50 });
+  } catch (error) {
+    console.log((error as Error).message); // Output: No answer to "camera.is-recording" within 50 ms
+  }
+
+  // Device registry: ids, presence heartbeats and a whole-home snapshot.
+  try {
+    mediator.addComponent(new Light(mediator));
+  } catch (error) {
+    console.log((error as Error).message); // Output: A component with id "light" is already registered
+  }
+  const hallLight = new Light(mediator, "hall-light");
+  mediator.addComponent(hallLight);
+
+  currentTime = new Date(2024, 0, 1, 22, 45);
+  light.heartbeat();
+  thermostat.heartbeat();
+  bedroomThermostat.heartbeat();
+  hallLight.heartbeat();
+  console.log(mediator.checkPresence()); // Output: [ 'camera' ]
+  console.log(mediator.getPresence("camera")?.status); // Output: offline
+
+  mediator.removeComponent("hall-light");
+  console.log(JSON.stringify(mediator.snapshot().devices.map(({ id, status, state }) => ({ id, status, state }))));
+  // Output: [{"id":"light","status":"online","state":{"on":true}},{"id":"thermostat","status":"online","state":{"temperature":20}},
+  //          {"id":"camera","status":"offline","state":{"recording":true}},{"id":"bedroom-thermostat","status":"online","state":{"temperature":18}}]
+
+  // Message log: inspect who sent what, export it, and replay it against fresh components.
+  const recordingEntry = mediator.getLog().find((entry) => entry.event.type === "camera.recording.started")!;
+  console.log(recordingEntry.sender, recordingEntry.recipients); // Output: camera [ 'light' ]
+  const capturedLog = mediator.exportLog();
+
+  let replayTime = new Date(0);
+  const freshMediator = new ConcreteHomeAutomationMediator(() => replayTime);
+  [new Light(freshMediator), new Thermostat(freshMediator), new SecurityCamera(freshMediator)].forEach((component) =>
+    freshMediator.addComponent(component)
+  );
+  freshMediator.loadRules(`[{
+    "id": "night-recording-light",
+    "when": "camera.recording.started",
+    "conditions": [{ "type": "after", "time": "22:00" }],
+    "actions": [{ "target": "light", "action": "turnOn" }]
+  }]`);
+  const report = replayMessageLog(capturedLog, freshMediator, (time) => (replayTime = time));
+  console.log(report.replayed, report.skipped); // Output: 7 []
 }
 
 /**
@@ -1,63 +1,122 @@
 /**
- * Observer interface defining the method for updating observers.
+ * Observer interface for push mode: the subject sends each new value.
  */
-interface Observer {
-  update(temperature: number, humidity: number, pressure: number): void;
+interface Observer<T> {
+  update(value: T): void;
 }
 
 /**
- * Subject interface defining methods for registering, removing, and notifying observers.
+ * Observer interface for pull mode: the subject only signals a change, and the
+ * observer reads what it needs from the subject.
  */
-interface Subject {
-  registerObserver(observer: Observer): void;
-  removeObserver(observer: Observer): void;
-  notifyObservers(): void;
+interface PullObserver<T> {
+  changed(subject: Subject<T>): void;
 }
 
 /**
- * Concrete subject class representing weather data.
+ * Removes the subscription it was returned for. Calling it again does nothing.
  */
-class WeatherData implements Subject {
-  private observers: Observer[] = [];
-  private temperature: number = 0;
-  private humidity: number = 0;
-  private pressure: number = 0;
+type Unsubscribe = () => void;
+
+/**
+ * A source of values that push-mode observers can subscribe to.
+ */
+interface Observable<T> {
+  subscribe(observer: Observer<T>): Unsubscribe;
+}
+
+/**
+ * Subject interface defining methods for subscribing observers and reading the current value.
+ */
+interface Subject<T> extends Observable<T> {
+  subscribePull(observer: PullObserver<T>): Unsubscribe;
+  getValue(): T;
+}
+
+/**
+ * Subject holding a value of type `T` and notifying its observers whenever it changes.
+ */
+class ValueSubject<T> implements Subject<T> {
+  private value: T;
+  private observers: Observer<T>[] = [];
+  private pullObservers: PullObserver<T>[] = [];
 
-  registerObserver(observer: Observer): void {
-    this.observers.push(observer);
+  constructor(initialValue: T) {
+    this.value = initialValue;
   }
 
-  removeObserver(observer: Observer): void {
-    const index = this.observers.indexOf(observer);
-    if (index !== -1) {
-      this.observers.splice(index, 1);
-    }
+  subscribe(observer: Observer<T>): Unsubscribe {
+    return this.addTo(this.observers, observer);
+  }
+
+  subscribePull(observer: PullObserver<T>): Unsubscribe {
+    return this.addTo(this.pullObservers, observer);
+  }
+
+  getValue(): T {
+    return this.value;
+  }
+
+  setValue(value: T): void {
+    this.value = value;
+    this.notifyObservers();
   }
 
   notifyObservers(): void {
-    for (const observer of this.observers) {
-      observer.update(this.temperature, this.humidity, this.pressure);
+    // Copies, so observers can unsubscribe while being notified
+    for (const observer of [...this.observers]) {
+      observer.update(this.value);
+    }
+    for (const observer of [...this.pullObservers]) {
+      observer.changed(this);
     }
   }
 
-  setMeasurements(temperature: number, humidity: number, pressure: number): void {
-    this.temperature = temperature;
-    this.humidity = humidity;
-    this.pressure = pressure;
-    this.notifyObservers();
+  private addTo<O>(observers: O[], observer: O): Unsubscribe {
+    observers.push(observer);
+    let subscribed = true;
+    return () => {
+      if (subscribed) {
+        subscribed = false;
+        observers.splice(observers.indexOf(observer), 1);
+      }
+    };
+  }
+}
+
+/**
+ * A single set of weather measurements.
+ */
+interface WeatherReading {
+  temperature: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+}
+
+/**
+ * Concrete subject class representing weather data.
+ */
+class WeatherData extends ValueSubject<WeatherReading> {
+  constructor() {
+    super({ temperature: 0, humidity: 0, pressure: 0, windSpeed: 0 });
+  }
+
+  setMeasurements(reading: WeatherReading): void {
+    this.setValue({ ...reading });
   }
 }
 
 /**
  * Concrete observer class representing a current conditions display.
  */
-class CurrentConditionsDisplay implements Observer {
+class CurrentConditionsDisplay implements Observer<WeatherReading> {
   private temperature: number = 0;
   private humidity: number = 0;
 
-  update(temperature: number, humidity: number, pressure: number): void {
-    this.temperature = temperature;
-    this.humidity = humidity;
+  update(reading: WeatherReading): void {
+    this.temperature = reading.temperature;
+    this.humidity = reading.humidity;
     this.display();
   }
 
@@ -69,17 +128,17 @@ class CurrentConditionsDisplay implements Observer {
 /**
  * Concrete observer class representing a statistics display.
  */
-class StatisticsDisplay implements Observer {
+class StatisticsDisplay implements Observer<WeatherReading> {
   private maxTemperature: number = Number.MIN_SAFE_INTEGER;
   private minTemperature: number = Number.MAX_SAFE_INTEGER;
   private temperatureSum: number = 0;
   private numReadings: number = 0;
 
-  update(temperature: number, humidity: number, pressure: number): void {
-    this.temperatureSum += temperature;
+  update(reading: WeatherReading): void {
+    this.temperatureSum += reading.temperature;
     this.numReadings++;
-    this.maxTemperature = Math.max(this.maxTemperature, temperature);
-    this.minTemperature = Math.min(this.minTemperature, temperature);
+    this.maxTemperature = Math.max(this.maxTemperature, reading.temperature);
+    this.minTemperature = Math.min(this.minTemperature, reading.temperature);
     this.display();
   }
 
@@ -91,14 +150,15 @@ class StatisticsDisplay implements Observer {
 
 /**
  * Concrete observer class representing a forecast display.
+ * It works in pull mode and only reads the pressure from the subject.
  */
-class ForecastDisplay implements Observer {
+class ForecastDisplay implements PullObserver<WeatherReading> {
   private lastPressure: number = 0;
   private currentPressure: number = 0;
 
-  update(temperature: number, humidity: number, pressure: number): void {
+  changed(subject: Subject<WeatherReading>): void {
     this.lastPressure = this.currentPressure;
-    this.currentPressure = pressure;
+    this.currentPressure = subject.getValue().pressure;
     this.display();
   }
 
@@ -113,6 +173,232 @@ class ForecastDisplay implements Observer {
   }
 }
 
+/**
+ * Concrete observer class representing a wind display.
+ */
+class WindDisplay implements Observer<WeatherReading> {
+  update(reading: WeatherReading): void {
+    console.log(`Wind: ${reading.windSpeed} km/h`);
+  }
+}
+
+/**
+ * Clock interface used for timestamps and timers, so time can be simulated.
+ * `schedule` returns a function that cancels the pending callback.
+ */
+interface Clock {
+  now(): number;
+  schedule(callback: () => void, delayMs: number): () => void;
+}
+
+/**
+ * Clock backed by the system time and `setTimeout`.
+ */
+class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const timer = setTimeout(callback, delayMs);
+    return () => clearTimeout(timer);
+  }
+}
+
+/**
+ * Virtual clock that only moves when `advance` is called, running due callbacks in order.
+ */
+class VirtualClock implements Clock {
+  private time: number;
+  private timers: { at: number; seq: number; callback: () => void }[] = [];
+  private seq: number = 0;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const timer = { at: this.time + delayMs, seq: this.seq++, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((t) => t !== timer);
+    };
+  }
+
+  advance(ms: number): void {
+    const target = this.time + ms;
+    for (;;) {
+      const due = this.timers
+        .filter((t) => t.at <= target)
+        .sort((a, b) => a.at - b.at || a.seq - b.seq)[0];
+      if (!due) {
+        break;
+      }
+      this.timers = this.timers.filter((t) => t !== due);
+      this.time = due.at;
+      due.callback();
+    }
+    this.time = target;
+  }
+}
+
+/**
+ * Transforms each value.
+ * Like the other operators below, it subscribes to its source only when it is
+ * subscribed to itself, and keeps separate state for each subscriber.
+ */
+function map<T, U>(source: Observable<T>, fn: (value: T) => U): Observable<U> {
+  return {
+    subscribe: (observer) => source.subscribe({ update: (value) => observer.update(fn(value)) }),
+  };
+}
+
+/**
+ * Passes on the values matching the predicate.
+ */
+function filter<T>(source: Observable<T>, predicate: (value: T) => boolean): Observable<T> {
+  return {
+    subscribe: (observer) =>
+      source.subscribe({
+        update: (value) => {
+          if (predicate(value)) {
+            observer.update(value);
+          }
+        },
+      }),
+  };
+}
+
+/**
+ * Passes on a value only once the source has been quiet for `delayMs`.
+ */
+function debounce<T>(source: Observable<T>, delayMs: number, clock: Clock = new SystemClock()): Observable<T> {
+  return {
+    subscribe: (observer) => {
+      let cancelPending: (() => void) | null = null;
+      const unsubscribe = source.subscribe({
+        update: (value) => {
+          cancelPending?.();
+          cancelPending = clock.schedule(() => {
+            cancelPending = null;
+            observer.update(value);
+          }, delayMs);
+        },
+      });
+      return () => {
+        cancelPending?.();
+        unsubscribe();
+      };
+    },
+  };
+}
+
+/**
+ * Passes on at most one value per `intervalMs`: the first one, dropping the rest.
+ */
+function throttle<T>(source: Observable<T>, intervalMs: number, clock: Clock = new SystemClock()): Observable<T> {
+  return {
+    subscribe: (observer) => {
+      let lastEmittedAt: number | null = null;
+      return source.subscribe({
+        update: (value) => {
+          const now = clock.now();
+          if (lastEmittedAt === null || now - lastEmittedAt >= intervalMs) {
+            lastEmittedAt = now;
+            observer.update(value);
+          }
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Drops values that `isSame` considers equal to the last value passed on. Comparing
+ * with the last passed value, not the last received one, lets a slow drift through.
+ */
+function distinctUntilChanged<T>(
+  source: Observable<T>,
+  isSame: (previous: T, current: T) => boolean = (previous, current) => previous === current
+): Observable<T> {
+  return {
+    subscribe: (observer) => {
+      let last: { value: T } | null = null;
+      return source.subscribe({
+        update: (value) => {
+          if (last === null || !isSame(last.value, value)) {
+            last = { value };
+            observer.update(value);
+          }
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Builds an `isSame` comparison for `distinctUntilChanged` that treats readings as
+ * equal when no measurement moved by more than its tolerance (0 when not given).
+ */
+function readingsWithin(tolerance: Partial<WeatherReading>): (previous: WeatherReading, current: WeatherReading) => boolean {
+  const keys: (keyof WeatherReading)[] = ["temperature", "humidity", "pressure", "windSpeed"];
+  return (previous, current) =>
+    keys.every((key) => Math.abs(current[key] - previous[key]) <= (tolerance[key] ?? 0));
+}
+
+/**
+ * Passes on the latest `size` values, oldest first, on every value once `size` have arrived.
+ */
+function slidingWindow<T>(source: Observable<T>, size: number): Observable<T[]> {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`Window size must be a positive integer, got ${size}`);
+  }
+  return {
+    subscribe: (observer) => {
+      const values: T[] = [];
+      return source.subscribe({
+        update: (value) => {
+          values.push(value);
+          if (values.length > size) {
+            values.shift();
+          }
+          if (values.length === size) {
+            observer.update([...values]);
+          }
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Collects values and passes them on in batches of `size`.
+ */
+function buffer<T>(source: Observable<T>, size: number): Observable<T[]> {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`Buffer size must be a positive integer, got ${size}`);
+  }
+  return {
+    subscribe: (observer) => {
+      let values: T[] = [];
+      return source.subscribe({
+        update: (value) => {
+          values.push(value);
+          if (values.length === size) {
+            const batch = values;
+            values = [];
+            observer.update(batch);
+          }
+        },
+      });
+    },
+  };
+}
+
 /**
  * Client code using the Observer pattern.
  */
@@ -122,24 +408,82 @@ function testWeatherStation(): void {
   const currentConditionsDisplay = new CurrentConditionsDisplay();
   const statisticsDisplay = new StatisticsDisplay();
   const forecastDisplay = new ForecastDisplay();
+  const windDisplay = new WindDisplay();
 
-  weatherData.registerObserver(currentConditionsDisplay);
-  weatherData.registerObserver(statisticsDisplay);
-  weatherData.registerObserver(forecastDisplay);
+  weatherData.subscribe(currentConditionsDisplay);
+  const unsubscribeStatistics = weatherData.subscribe(statisticsDisplay);
+  weatherData.subscribePull(forecastDisplay);
+  weatherData.subscribe(windDisplay);
 
   // Simulate weather changes
-  weatherData.setMeasurements(25, 65, 1013);
-  weatherData.setMeasurements(30, 70, 1012);
-  weatherData.setMeasurements(20, 60, 1015);
+  weatherData.setMeasurements({ temperature: 25, humidity: 65, pressure: 1013, windSpeed: 12 });
+  weatherData.setMeasurements({ temperature: 30, humidity: 70, pressure: 1012, windSpeed: 8 });
+  weatherData.setMeasurements({ temperature: 20, humidity: 60, pressure: 1015, windSpeed: 20 });
 
-  // Unregister an observer
-  weatherData.removeObserver(statisticsDisplay);
+  // Unsubscribe an observer
+  unsubscribeStatistics();
 
   // Simulate more weather changes
-  weatherData.setMeasurements(28, 68, 1014);
+  weatherData.setMeasurements({ temperature: 28, humidity: 68, pressure: 1014, windSpeed: 15 });
+}
+
+/**
+ * Client code filtering noisy sensor data with stream operators, driven by a virtual clock.
+ */
+function testWeatherStreams(): void {
+  const clock = new VirtualClock();
+  const weatherData = new WeatherData();
+  const temperatures = map(weatherData, (reading) => reading.temperature);
+  const log = (label: string): Observer<unknown> => ({
+    update: (value) => console.log(`${label}: ${JSON.stringify(value)}`),
+  });
+
+  // The sensor reports every 200 ms, then goes quiet for a second
+  const feed = (samples: number[]): void => {
+    for (const temperature of samples) {
+      weatherData.setMeasurements({ temperature, humidity: 65, pressure: 1013, windSpeed: 10 });
+      clock.advance(200);
+    }
+    clock.advance(1000);
+  };
+
+  let unsubscribe = debounce(temperatures, 500, clock).subscribe(log("Debounced"));
+  feed([20, 20.2, 20.1, 21]);
+  unsubscribe();
+  // Output: Debounced: 21
+
+  unsubscribe = throttle(temperatures, 500, clock).subscribe(log("Throttled"));
+  feed([20, 20.2, 20.1, 21]);
+  unsubscribe();
+  // Output:
+  // Throttled: 20
+  // Throttled: 21
+
+  const significant = distinctUntilChanged(weatherData, readingsWithin({ temperature: 0.5 }));
+  unsubscribe = map(significant, (reading) => reading.temperature).subscribe(log("Changed"));
+  feed([20, 20.2, 20.4, 20.6, 20.7]);
+  unsubscribe();
+  // Output:
+  // Changed: 20
+  // Changed: 20.6
+
+  const average = (values: number[]): number =>
+    Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+  unsubscribe = map(slidingWindow(temperatures, 3), average).subscribe(log("Moving average"));
+  feed([20, 21, 25, 22]);
+  unsubscribe();
+  // Output:
+  // Moving average: 22
+  // Moving average: 22.7
+
+  unsubscribe = buffer(filter(temperatures, (temperature) => temperature >= 25), 2).subscribe(log("Hot batch"));
+  feed([24, 25, 26, 23, 27]);
+  unsubscribe();
+  // Output: Hot batch: [25,26]
 }
 
 /**
  * Usage example.
  */
 testWeatherStation();
+testWeatherStreams();